@@ -5,6 +5,16 @@ import peerDepsExternal from "rollup-plugin-peer-deps-external";
 import postcss from "rollup-plugin-postcss";
 import image from "@rollup/plugin-image";
 
+// Module level "use client" directives are dropped when bundling, the banner restores the boundary
+const USE_CLIENT_BANNER = '"use client";';
+
+const onwarn = (warning, warn) => {
+  if (warning.code === "MODULE_LEVEL_DIRECTIVE") {
+    return;
+  }
+  warn(warning);
+};
+
 export default [
   {
     input: "src/index.ts",
@@ -13,13 +23,16 @@ export default [
         file: "dist/index.js",
         format: "cjs",
         sourcemap: true,
+        banner: USE_CLIENT_BANNER,
       },
       {
         file: "dist/index.esm.js",
         format: "esm",
         sourcemap: true,
+        banner: USE_CLIENT_BANNER,
       },
     ],
+    onwarn,
     plugins: [
       peerDepsExternal(),
       resolve({
@@ -59,4 +72,80 @@ export default [
       "child_process",
     ],
   },
+  // React-free entry (@getpassage/react-js/vanilla)
+  {
+    input: "src/vanilla/index.ts",
+    output: [
+      {
+        file: "dist/vanilla.js",
+        format: "cjs",
+        sourcemap: true,
+      },
+      {
+        file: "dist/vanilla.esm.js",
+        format: "esm",
+        sourcemap: true,
+      },
+    ],
+    plugins: [
+      resolve({
+        browser: true,
+        preferBuiltins: false,
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: "./tsconfig.json",
+        exclude: ["**/*.test.ts", "**/*.test.tsx"],
+      }),
+    ],
+    external: ["jwt-decode", "qrcode", "socket.io-client"],
+  },
+  // Script tag build of the React-free entry, exposed as window.Passage
+  {
+    input: "src/vanilla/index.ts",
+    output: {
+      file: "dist/passage.js",
+      format: "iife",
+      name: "Passage",
+      sourcemap: true,
+    },
+    plugins: [
+      resolve({
+        browser: true,
+        preferBuiltins: false,
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: "./tsconfig.json",
+        exclude: ["**/*.test.ts", "**/*.test.tsx"],
+      }),
+    ],
+  },
+  // Node-only server entry (@getpassage/react-js/server)
+  {
+    input: "src/server/index.ts",
+    output: [
+      {
+        file: "dist/server.js",
+        format: "cjs",
+        sourcemap: true,
+      },
+      {
+        file: "dist/server.esm.js",
+        format: "esm",
+        sourcemap: true,
+      },
+    ],
+    plugins: [
+      resolve({
+        preferBuiltins: true,
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: "./tsconfig.json",
+        exclude: ["**/*.test.ts", "**/*.test.tsx"],
+      }),
+    ],
+    external: ["jwt-decode"],
+  },
 ];
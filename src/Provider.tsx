@@ -1,3 +1,5 @@
+'use client';
+
 import React, {
   createContext,
   useState,
@@ -8,14 +10,7 @@ import React, {
 import ReactDOM from 'react-dom';
 import { PassageModal } from './components/PassageModal';
 import { AppClipModal } from './components/AppClipModal';
-import { WebSocketManager } from './websocket-manager';
-import { logger } from './logger';
-import { analytics, ANALYTICS_EVENTS } from './analytics';
-import {
-  DEFAULT_UI_BASE_URL,
-  DEFAULT_SOCKET_URL,
-  DEFAULT_SOCKET_NAMESPACE,
-} from './config';
+import { DEFAULT_UI_BASE_URL } from './config';
 import type {
   PassageConfig,
   PassageContextValue,
@@ -23,522 +18,222 @@ import type {
   GenerateAppClipOptions,
   GenerateAppClipResponse,
   OpenAppClipOptions,
-  ConnectionStatus,
-  ConnectionUpdate,
-  PassageDataResult,
-  PassageSuccessData,
-  PassageErrorData,
-  BrandingConfig,
 } from './types';
-import { configure, generateAppClip as coreGenerateAppClip, openAppClip as coreOpenAppClip } from './core/passage';
+import { PassageClient, getDefaultClient } from './core/client';
+import { resolveConfig } from './core/environment';
+import type { PassageSession } from './core/session';
+import type { PassageViewState } from './core/sessionManager';
 
 export const PassageContext = createContext<PassageContextValue | null>(null);
 
 interface PassageProviderProps {
   children: React.ReactNode;
-  config: PassageConfig;
+  /**
+   * Configuration applied to the client on mount and whenever it changes
+   */
+  config?: PassageConfig;
+  /**
+   * Client instance to use, defaults to the client behind the global configure()/open() functions
+   */
+  client?: PassageClient;
+  /**
+   * Id sessions opened with a matching providerId render in, e.g. one per micro-frontend
+   * open() and openAppClip() from this Provider's context target it by default
+   */
+  id?: string;
+  /**
+   * Called with the session restored after a page reload, before it reconnects
+   * Subscribe with session.on() to receive its completion events
+   */
+  onSessionResume?: (session: PassageSession) => void;
 }
 
 export const PassageProvider: React.FC<PassageProviderProps> = ({
   children,
   config,
+  client: clientProp,
+  id,
+  onSessionResume,
 }) => {
-  // Main modal state
-  const [isOpen, setIsOpen] = useState(false);
-  const [intentToken, setIntentToken] = useState<string | null>(null);
-  const [status, setStatus] = useState<ConnectionStatus | null>(null);
-  const [presentationStyle, setPresentationStyle] = useState<'modal' | 'embed'>('modal');
-  const [container, setContainer] = useState<HTMLElement | null>(null);
-
-  // AppClip modal state
-  const [isAppClipOpen, setIsAppClipOpen] = useState(false);
-  const [appClipData, setAppClipData] = useState<GenerateAppClipResponse | null>(null);
-  const [appClipBranding, setAppClipBranding] = useState<BrandingConfig | null>(null);
-
-  // Store returnUrl from intent token generation
-  const [returnUrl, setReturnUrl] = useState<string | null>(null);
-
-  // Store callbacks in refs
-  const onConnectionCompleteRef = useRef<((data: PassageSuccessData) => void) | undefined>(undefined);
-  const onErrorRef = useRef<((error: PassageErrorData) => void) | undefined>(undefined);
-  const onDataCompleteRef = useRef<((data: PassageDataResult) => void) | undefined>(undefined);
-  const onExitRef = useRef<((reason?: string) => void) | undefined>(undefined);
-
-  const wsManager = WebSocketManager.getInstance();
+  const client = clientProp ?? getDefaultClient();
+  const { logger } = client;
+  const manager = client.getSessionManager();
+  const activeConfig: PassageConfig = config
+    ? resolveConfig(config)
+    : client.getConfig() ?? resolveConfig({});
+
+  // View states of the client's sessions, owned by its session manager
+  const [views, setViews] = useState<PassageViewState[]>(() =>
+    manager.getStatesFor(id)
+  );
 
-  // Configure logger and analytics on mount
+  // Portals only render after mount so the server and hydration renders match
+  const [isMounted, setIsMounted] = useState(false);
   useEffect(() => {
-    logger.setDebugMode(config.debug ?? false);
-    logger.setWebBaseUrl(config.uiUrl || DEFAULT_UI_BASE_URL);
-
-    analytics.configure({
-      enabled: true,
-      webBaseUrl: config.uiUrl || DEFAULT_UI_BASE_URL,
-    });
-
-    // Configure core module
-    configure(config);
+    setIsMounted(true);
+  }, []);
 
-    logger.debug('[PassageProvider] Initialized with config:', config);
-  }, [config]);
+  const onSessionResumeRef = useRef(onSessionResume);
+  onSessionResumeRef.current = onSessionResume;
 
-  // Listen for passage:open events from core module
+  // Configure the client (logger, analytics, API) on mount
   useEffect(() => {
-    const handleOpen = (event: CustomEvent<PassageOpenOptions>) => {
-      const options = event.detail;
-      logger.debug('[PassageProvider] Received passage:open event', options);
-
-      open(options);
-    };
-
-    const handleClose = () => {
-      logger.debug('[PassageProvider] Received passage:close event');
-      close();
-    };
-
-    const handleOpenAppClip = (event: CustomEvent<{
-      appClipData: GenerateAppClipResponse;
-      branding: BrandingConfig | null;
-      callbacks: {
-        onConnectionComplete?: (data: PassageSuccessData) => void;
-        onConnectionError?: (error: PassageErrorData) => void;
-        onDataComplete?: (data: PassageDataResult) => void;
-        onExit?: (reason?: string) => void;
-      };
-    }>) => {
-      logger.info('[PassageProvider] ==== Received passage:openAppClip event ====');
-      const { appClipData, branding, callbacks } = event.detail;
-
-      logger.debug('[PassageProvider] Event detail:', {
-        hasAppClipData: !!appClipData,
-        hasBranding: !!branding,
-        brandingIntegrationName: branding?.integrationName,
-        connectionId: appClipData?.connectionId,
-        shortToken: appClipData?.shortToken,
-        hasCallbacks: !!(callbacks?.onConnectionComplete || callbacks?.onConnectionError)
-      });
-
-      if (branding) {
-        logger.info('[PassageProvider] ✓ Branding received:', {
-          integrationName: branding.integrationName,
-          colorPrimary: branding.colorPrimary,
-          colorBackground: branding.colorBackground,
-          colorCardBackground: branding.colorCardBackground,
-          colorText: branding.colorText,
-          colorTextSecondary: branding.colorTextSecondary,
-          logoUrl: branding.logoUrl
-        });
-      } else {
-        logger.warn('[PassageProvider] ⚠️  No branding received in event');
+    if (config) {
+      try {
+        client.configure(config);
+      } catch (error) {
+        // An invalid config prop must not unmount the app, the client keeps its previous configuration
+        logger.error(
+          '[PassageProvider] Invalid config, keeping the previous configuration:',
+          error
+        );
+        return;
       }
-
-      // Store callbacks
-      onConnectionCompleteRef.current = callbacks.onConnectionComplete;
-      onErrorRef.current = callbacks.onConnectionError;
-      onDataCompleteRef.current = callbacks.onDataComplete;
-      onExitRef.current = callbacks.onExit;
-
-      // Set intent token and returnUrl from app clip data
-      const token = appClipData.intentToken;
-      logger.debug('[PassageProvider] Setting intent token from app clip:', token);
-      setIntentToken(token);
-      setReturnUrl(appClipData.returnUrl || null);
-      logger.debug('[PassageProvider] Stored returnUrl from intent token:', appClipData.returnUrl);
-
-      // Connect to websocket
-      const socketUrl = config.socketUrl || DEFAULT_SOCKET_URL;
-      const socketNamespace = config.socketNamespace || DEFAULT_SOCKET_NAMESPACE;
-
-      logger.debug('[PassageProvider] Connecting to websocket:', { socketUrl, socketNamespace });
-      wsManager.connect(token, socketUrl, socketNamespace).catch((error) => {
-        logger.error('[PassageProvider] Failed to connect to websocket:', error);
-      });
-
-      // Open app clip modal with branding
-      logger.debug('[PassageProvider] Setting state to open app clip modal...');
-      setAppClipData(appClipData);
-      setAppClipBranding(branding);
-      setIsAppClipOpen(true);
-      logger.info('[PassageProvider] ✓ App clip modal state updated (should open now)');
-    };
-
-    if (typeof window !== 'undefined') {
-      window.addEventListener('passage:open', handleOpen as EventListener);
-      window.addEventListener('passage:close', handleClose as EventListener);
-      window.addEventListener('passage:openAppClip', handleOpenAppClip as EventListener);
-
-      return () => {
-        window.removeEventListener('passage:open', handleOpen as EventListener);
-        window.removeEventListener('passage:close', handleClose as EventListener);
-        window.removeEventListener('passage:openAppClip', handleOpenAppClip as EventListener);
-      };
-    }
-  }, []);
-
-  // Handle WebSocket connection updates
-  useEffect(() => {
-    if (!intentToken) {
-      return;
     }
 
-    logger.debug('[PassageProvider] Setting up WebSocket listeners for token:', intentToken);
-
-    const unsubscribeMessage = wsManager.addMessageListener(
-      (eventName: string, data: any) => {
-        logger.debug('[PassageProvider] WebSocket message received:', {
-          eventName,
-          data,
-        });
-
-        // Handle connection events
-        if (
-          eventName === 'connection' ||
-          eventName === 'connection_update' ||
-          (data?.id && data?.status)
-        ) {
-          const connection: ConnectionUpdate = data;
-          setStatus(connection.status);
-
-          if (connection.status === 'data_available') {
-            const sessionDataResult: PassageDataResult = {
-              data: connection.data,
-              prompts: connection.promptResults.map((promptResult) => ({
-                name: promptResult.name,
-                content: promptResult.result,
-                response: promptResult.result,
-              })),
-              intentToken: intentToken,
-            };
-
-            onDataCompleteRef.current?.(sessionDataResult);
-          } else if (
-            connection.status === 'error' ||
-            connection.status === 'rejected'
-          ) {
-            const errorData: PassageErrorData = {
-              error:
-                connection.status === 'rejected'
-                  ? 'Connection rejected'
-                  : 'Connection failed',
-              code:
-                connection.status === 'rejected'
-                  ? 'CONNECTION_REJECTED'
-                  : 'CONNECTION_ERROR',
-            };
-
-            onErrorRef.current?.(errorData);
-          }
-        }
-
-        // Handle command event with type='done'
-        if (eventName === 'command' && data?.type === 'done') {
-          const success = data?.args?.success === true;
-          const resultData = data?.args?.data;
-
-          if (success) {
-            analytics.track(ANALYTICS_EVENTS.SDK_ON_SUCCESS, {
-              status: 'done',
-              success: true,
-            });
-
-            const successData: PassageSuccessData = {
-              connectionId: data?.args?.connectionId || '',
-              status: 'done',
-              metadata: {
-                completedAt: new Date().toISOString(),
-              },
-              data: resultData || [],
-              intentToken: intentToken,
-              returnUrl: returnUrl || undefined,
-            };
-
-            onConnectionCompleteRef.current?.(successData);
-          } else {
-            const errorMessage = data?.args?.error || (resultData as any)?.error || 'Operation completed with failure';
-
-            analytics.track(ANALYTICS_EVENTS.SDK_ON_ERROR, {
-              status: 'done',
-              success: false,
-              error: errorMessage,
-            });
-
-            const errorData: PassageErrorData = {
-              error: errorMessage,
-              code: 'COMMAND_DONE_FAILURE',
-              data: resultData,
-            };
-
-            onErrorRef.current?.(errorData);
-          }
-        }
-
-        // Handle legacy done event (backward compatibility)
-        if (eventName === 'done') {
-          const success = data?.success !== false;
-          const resultData = data?.data;
-
-          if (success) {
-            analytics.track(ANALYTICS_EVENTS.SDK_ON_SUCCESS, {
-              status: 'done',
-              success: true,
-            });
-
-            const successData: PassageSuccessData = {
-              connectionId: data?.connectionId || '',
-              status: 'done',
-              metadata: {
-                completedAt: new Date().toISOString(),
-              },
-              data: resultData || [],
-              intentToken: intentToken,
-              returnUrl: returnUrl || undefined,
-            };
-
-            onConnectionCompleteRef.current?.(successData);
-          } else {
-            const errorMessage = data?.error || (resultData as any)?.error || 'Operation completed with failure';
+    logger.debug('[PassageProvider] Initialized with config:', activeConfig);
+  }, [client, config]);
 
-            analytics.track(ANALYTICS_EVENTS.SDK_ON_ERROR, {
-              status: 'done',
-              success: false,
-              error: errorMessage,
-            });
-
-            const errorData: PassageErrorData = {
-              error: errorMessage,
-              code: 'DONE_FAILURE',
-              data: resultData,
-            };
-
-            onErrorRef.current?.(errorData);
-          }
-        }
-
-        // Handle WebSocket errors
-        if (eventName === 'connect_error' || eventName === 'error') {
-          const errorData: PassageErrorData = {
-            error: data?.message || 'WebSocket error occurred',
-            code: 'WEBSOCKET_ERROR',
-            data: data,
-          };
-          onErrorRef.current?.(errorData);
-        }
-      }
+  // Render the manager's view state instead of its DOM renderer while mounted
+  useEffect(() => {
+    const unregister = manager.registerView(id);
+    const unsubscribe = manager.subscribe(() =>
+      setViews(manager.getStatesFor(id))
     );
+    setViews(manager.getStatesFor(id));
 
     return () => {
-      logger.debug('[PassageProvider] Cleaning up WebSocket listeners');
-      unsubscribeMessage();
+      unsubscribe();
+      unregister();
     };
-  }, [intentToken]);
-
-  // Open method
-  const open = useCallback(
-    async (options: PassageOpenOptions) => {
-      const token = options.token;
-
-      if (!token) {
-        const error = 'Token is required to open Passage';
-        logger.error('[PassageProvider]', error);
-        options.onConnectionError?.({ error });
-        return;
-      }
-
-      logger.debug('[PassageProvider] Opening Passage with token');
-
-      try {
-        // Store callbacks
-        onConnectionCompleteRef.current = options.onConnectionComplete;
-        onErrorRef.current = options.onConnectionError;
-        onDataCompleteRef.current = options.onDataComplete;
-        onExitRef.current = options.onExit;
-
-        // Set state
-        setIntentToken(token);
-
-        // Track open request
-        analytics.track(ANALYTICS_EVENTS.SDK_OPEN_REQUEST, {
-          presentationStyle: options.presentationStyle || 'modal',
-        });
-
-        // Handle embed mode
-        if (options.presentationStyle === 'embed' && options.container) {
-          const containerEl =
-            typeof options.container === 'string'
-              ? (document.querySelector(options.container) as HTMLElement)
-              : options.container;
-
-          if (!containerEl) {
-            throw new Error('Container element not found');
-          }
-
-          setContainer(containerEl);
-        }
-
-        // Connect WebSocket
-        const socketUrl = config.socketUrl || DEFAULT_SOCKET_URL;
-        const socketNamespace = config.socketNamespace || DEFAULT_SOCKET_NAMESPACE;
-
-        await wsManager.connect(token, socketUrl, socketNamespace);
-
-        // Update state
-        setPresentationStyle(options.presentationStyle || 'modal');
-        setStatus('pending');
-        setIsOpen(true);
-
-        logger.debug('[PassageProvider] Passage opened successfully');
-
-        // Track modal opened
-        analytics.track(ANALYTICS_EVENTS.SDK_MODAL_OPENED, {
-          presentationStyle: options.presentationStyle || 'modal',
-        });
-      } catch (error) {
-        logger.error('[PassageProvider] Failed to open Passage:', error);
+  }, [manager, id]);
 
-        analytics.track(ANALYTICS_EVENTS.SDK_OPEN_ERROR, {
-          error: error instanceof Error ? error.message : 'Failed to open Passage',
-        });
-
-        const errorData: PassageErrorData = {
-          error: error instanceof Error ? error.message : 'Failed to open Passage',
-          code: 'OPEN_ERROR',
-        };
+  // Resume the session left open before a page reload
+  useEffect(() => {
+    client.resumeSession((session) => onSessionResumeRef.current?.(session));
+  }, [client]);
 
-        options.onConnectionError?.(errorData);
-      }
-    },
-    [config]
+  // Context open - goes through the client so every open returns a session handle
+  const open = useCallback(
+    (options: PassageOpenOptions): PassageSession =>
+      client.open({ providerId: id, ...options }),
+    [client, id]
   );
 
-  // Close method
-  const close = useCallback(() => {
-    logger.debug('[PassageProvider] Closing Passage');
-
-    analytics.track(ANALYTICS_EVENTS.SDK_MODAL_CLOSED, {
-      status: status || 'unknown',
-      presentationStyle: presentationStyle,
-    });
-
-    if (!status || status === 'pending' || status === 'connecting') {
-      onExitRef.current?.('manual_close');
-    }
-
-    // Reset state
-    setIsOpen(false);
-    setStatus(null);
-    setPresentationStyle('modal');
-    setContainer(null);
-    setReturnUrl(null);
+  const close = useCallback(
+    (connectionId?: string) => manager.close(connectionId),
+    [manager]
+  );
 
-    logger.debug('[PassageProvider] Modal closed');
-  }, [status, presentationStyle]);
+  const getSessions = useCallback(() => manager.getSessions(), [manager]);
 
   // Generate app clip method
   const generateAppClipMethod = useCallback(
     async (options: GenerateAppClipOptions): Promise<GenerateAppClipResponse> => {
-      return await coreGenerateAppClip(options);
+      return await client.generateAppClip(options);
     },
-    []
+    [client]
   );
 
-  // Open app clip method - delegates to core module which handles branding
+  // Open app clip method - delegates to the client which handles branding
   const openAppClipMethod = useCallback(
-    async (options: OpenAppClipOptions): Promise<void> => {
-      logger.info('[PassageProvider] openAppClip called, delegating to core module');
-      // Call the core openAppClip function which handles:
-      // 1. Generating intent token
-      // 2. Fetching/extracting branding
-      // 3. Dispatching passage:openAppClip event (which we listen to above)
-      await coreOpenAppClip(options);
+    async (options: OpenAppClipOptions): Promise<PassageSession> => {
+      logger.info('[PassageProvider] openAppClip called, delegating to client');
+      return await client.openAppClip({ providerId: id, ...options });
     },
-    []
+    [client, id]
   );
 
-  // Close app clip modal
-  const closeAppClip = useCallback(() => {
-    logger.debug('[PassageProvider] Closing app clip modal');
-    setIsAppClipOpen(false);
-    setAppClipData(null);
-    setAppClipBranding(null);
-    setReturnUrl(null);
-    onExitRef.current?.('manual_close');
-  }, []);
-
-  // Log AppClipModal rendering conditions
-  useEffect(() => {
-    logger.debug('[PassageProvider] AppClipModal render conditions:', {
-      isAppClipOpen,
-      hasAppClipData: !!appClipData,
-      hasBranding: !!appClipBranding,
-      brandingIntegrationName: appClipBranding?.integrationName,
-      windowAvailable: typeof window !== 'undefined'
-    });
-
-    if (isAppClipOpen && appClipData) {
-      logger.info('[PassageProvider] ✓ AppClipModal should be rendering now');
-    } else if (isAppClipOpen && !appClipData) {
-      logger.warn('[PassageProvider] ⚠️  isAppClipOpen=true but no appClipData!');
-    }
-  }, [isAppClipOpen, appClipData, appClipBranding]);
-
   const contextValue: PassageContextValue = {
     open,
     close,
     generateAppClip: generateAppClipMethod,
     openAppClip: openAppClipMethod,
+    getSessions,
+    client,
+    providerId: id,
+  };
+
+  // Every session renders its own modal, embed or App Clip view
+  const renderView = (view: PassageViewState) => {
+    const {
+      connectionId,
+      isOpen,
+      intentToken,
+      status,
+      isReconnecting,
+      presentationStyle,
+      container,
+      isAppClipOpen,
+      appClipData,
+      appClipContainer,
+      branding: appClipBranding,
+    } = view;
+    const closeView = () => manager.close(connectionId ?? undefined);
+    const closeAppClipView = () =>
+      manager.closeAppClip(connectionId ?? undefined);
+
+    return (
+      <React.Fragment key={connectionId ?? 'initial'}>
+        {/* Main Passage Modal */}
+        {presentationStyle === 'modal' &&
+          ReactDOM.createPortal(
+            <PassageModal
+              isOpen={isOpen}
+              intentToken={intentToken}
+              status={status}
+              baseUrl={activeConfig.uiUrl || DEFAULT_UI_BASE_URL}
+              onClose={closeView}
+              customStyles={activeConfig.customStyles}
+              presentationStyle="modal"
+              isReconnecting={isReconnecting}
+              simulated={activeConfig.mode === 'simulate'}
+            />,
+            document.body
+          )}
+
+        {/* Embed mode */}
+        {presentationStyle === 'embed' &&
+          container &&
+          isOpen &&
+          ReactDOM.createPortal(
+            <PassageModal
+              isOpen={isOpen}
+              intentToken={intentToken}
+              status={status}
+              baseUrl={activeConfig.uiUrl || DEFAULT_UI_BASE_URL}
+              onClose={closeView}
+              customStyles={activeConfig.customStyles}
+              presentationStyle="embed"
+              isReconnecting={isReconnecting}
+              simulated={activeConfig.mode === 'simulate'}
+            />,
+            container
+          )}
+
+        {/* App Clip Modal, or the inline view when opened with a container */}
+        {isAppClipOpen &&
+          appClipData &&
+          ReactDOM.createPortal(
+            <AppClipModal
+              isOpen={isAppClipOpen}
+              appClipData={appClipData}
+              branding={appClipBranding}
+              onClose={closeAppClipView}
+              presentationStyle={appClipContainer ? 'embed' : 'modal'}
+            />,
+            appClipContainer ?? document.body
+          )}
+      </React.Fragment>
+    );
   };
 
   return (
     <PassageContext.Provider value={contextValue}>
       {children}
 
-      {/* Main Passage Modal */}
-      {presentationStyle === 'modal' &&
-        typeof window !== 'undefined' &&
-        ReactDOM.createPortal(
-          <PassageModal
-            isOpen={isOpen}
-            intentToken={intentToken}
-            status={status}
-            baseUrl={config.uiUrl || DEFAULT_UI_BASE_URL}
-            onClose={close}
-            customStyles={config.customStyles}
-            presentationStyle="modal"
-          />,
-          document.body
-        )}
-
-      {/* Embed mode */}
-      {presentationStyle === 'embed' &&
-        container &&
-        isOpen &&
-        typeof window !== 'undefined' &&
-        ReactDOM.createPortal(
-          <PassageModal
-            isOpen={isOpen}
-            intentToken={intentToken}
-            status={status}
-            baseUrl={config.uiUrl || DEFAULT_UI_BASE_URL}
-            onClose={close}
-            customStyles={config.customStyles}
-            presentationStyle="embed"
-          />,
-          container
-        )}
-
-      {/* App Clip Modal */}
-      {isAppClipOpen &&
-        appClipData &&
-        typeof window !== 'undefined' &&
-        ReactDOM.createPortal(
-          <AppClipModal
-            isOpen={isAppClipOpen}
-            appClipData={appClipData}
-            branding={appClipBranding}
-            onClose={closeAppClip}
-          />,
-          document.body
-        )}
+      {/* Portals only render after mount */}
+      {isMounted && views.map(renderView)}
     </PassageContext.Provider>
   );
 };
@@ -1,4 +1,5 @@
 import { logger } from "./logger";
+import { DEFAULT_API_BASE_URL } from "./config";
 
 // Analytics event types - all events start with SDK_
 export const ANALYTICS_EVENTS = {
@@ -15,10 +16,14 @@ export const ANALYTICS_EVENTS = {
   SDK_OPEN_ERROR: "SDK_OPEN_ERROR",
   SDK_ON_SUCCESS: "SDK_ON_SUCCESS",
   SDK_ON_ERROR: "SDK_ON_ERROR",
+  SDK_ON_EXIT: "SDK_ON_EXIT",
   SDK_REMOTE_CONTROL_CONNECT_START: "SDK_REMOTE_CONTROL_CONNECT_START",
   SDK_REMOTE_CONTROL_CONNECT_SUCCESS: "SDK_REMOTE_CONTROL_CONNECT_SUCCESS",
   SDK_REMOTE_CONTROL_CONNECT_ERROR: "SDK_REMOTE_CONTROL_CONNECT_ERROR",
   SDK_REMOTE_CONTROL_DISCONNECT: "SDK_REMOTE_CONTROL_DISCONNECT",
+  SDK_REMOTE_CONTROL_RECONNECT: "SDK_REMOTE_CONTROL_RECONNECT",
+  SDK_REMOTE_CONTROL_RECONNECT_FAILED: "SDK_REMOTE_CONTROL_RECONNECT_FAILED",
+  SDK_REMOTE_CONTROL_POLLING_FALLBACK: "SDK_REMOTE_CONTROL_POLLING_FALLBACK",
   SDK_WEBVIEW_SWITCH: "SDK_WEBVIEW_SWITCH",
   SDK_NAVIGATION_START: "SDK_NAVIGATION_START",
   SDK_NAVIGATION_SUCCESS: "SDK_NAVIGATION_SUCCESS",
@@ -48,9 +53,9 @@ export interface SDKAnalyticsEvent extends AnalyticsEvent {
   deviceInfo?: Record<string, unknown>;
 }
 
-class AnalyticsManager {
+export class AnalyticsManager {
   private enabled: boolean = false;
-  private analyticsUrl: string = "https://api.getpassage.ai/analytics";
+  private analyticsUrl: string = `${DEFAULT_API_BASE_URL}/analytics`;
   private sdkName: string = "web-react";
   private sdkVersion?: string;
   private sessionId: string | null = null; // Only set if extracted from intent token
@@ -267,6 +272,12 @@ class AnalyticsManager {
       clearInterval(this.flushTimer);
     }
 
+    // Outside the browser the interval would keep the process alive
+    if (typeof window === "undefined") {
+      this.flushTimer = undefined;
+      return;
+    }
+
     this.flushTimer = setInterval(() => {
       this.flush();
     }, this.FLUSH_INTERVAL);
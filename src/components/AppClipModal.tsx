@@ -1,3 +1,5 @@
+'use client';
+
 import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { logger } from '../logger';
@@ -5,6 +7,8 @@ import type { GenerateAppClipResponse, BrandingConfig } from '../types';
 import { DesktopView } from './AppClipPage/DesktopView';
 import { AndroidView } from './AppClipPage/AndroidView';
 import { applyBranding, resetBranding } from '../utils/branding';
+import { useDeviceDetection, useQrCodeSize } from '../hooks/useDeviceDetection';
+import { getAppClipQrCodeUrl } from '../core/connectFrame';
 
 export interface AppClipModalProps {
   isOpen: boolean;
@@ -12,6 +16,11 @@ export interface AppClipModalProps {
   branding: BrandingConfig | null;
   onClose: () => void;
   logoUrl?: string;
+  /**
+   * "embed" renders the view inline without the overlay
+   * @default 'modal'
+   */
+  presentationStyle?: 'modal' | 'embed';
 }
 
 /**
@@ -25,7 +34,8 @@ export const AppClipModal: React.FC<AppClipModalProps> = ({
   appClipData,
   branding,
   onClose,
-  logoUrl
+  logoUrl,
+  presentationStyle = 'modal'
 }) => {
   logger.debug('[AppClipModal] Component render:', {
     isOpen,
@@ -35,43 +45,15 @@ export const AppClipModal: React.FC<AppClipModalProps> = ({
     shortToken: appClipData?.shortToken
   });
 
-  // Device detection states
-  const [isAndroid, setIsAndroid] = useState(false);
-  const [isIosMobile, setIsIosMobile] = useState(false);
+  // Device detection runs after mount so the server and hydration renders match
+  const { isAndroid, isIosMobile } = useDeviceDetection();
   const [forceDesktopView, setForceDesktopView] = useState(false);
 
-  // QR code state
-  const [qrCodeSize, setQrCodeSize] = useState(() => {
-    if (typeof window === 'undefined') return 200;
-    const width = window.innerWidth;
-    if (width <= 375) return 100;
-    if (width <= 480) return 116;
-    if (width <= 768) return 160;
-    return 200;
-  });
+  // QR code size follows the viewport once mounted
+  const qrCodeSize = useQrCodeSize();
 
   // Build QR code URL
-  const qrCodeUrl = appClipData.shortToken
-    ? `https://appclip.apple.com/id?p=com.passage.authenticator.Clip&shortCode=${encodeURIComponent(appClipData.shortToken)}`
-    : appClipData.url;
-
-  // Device detection
-  useEffect(() => {
-    // Check for testing query parameters
-    const urlParams = new URLSearchParams(window.location.search);
-    const forceAndroid = urlParams.get('android') === 'true';
-    const forceIos = urlParams.get('ios') === 'true';
-
-    // Detect Android and iOS mobile devices
-    const userAgent = navigator.userAgent.toLowerCase();
-    const isAndroidDevice = /android/.test(userAgent);
-    const isIosDevice = /iphone|ipad|ipod/.test(userAgent);
-    const isMobileDevice = /android|webos|iphone|ipod|ipad|blackberry|iemobile|opera mini/i.test(userAgent);
-
-    // Allow query params to override detection for testing
-    setIsAndroid(forceAndroid || (isAndroidDevice && isMobileDevice));
-    setIsIosMobile(forceIos || (isIosDevice && isMobileDevice));
-  }, []);
+  const qrCodeUrl = getAppClipQrCodeUrl(appClipData);
 
   // Apply branding when modal opens
   useEffect(() => {
@@ -106,25 +88,6 @@ export const AppClipModal: React.FC<AppClipModalProps> = ({
     };
   }, [isOpen, branding]);
 
-  // Update QR code size on window resize
-  useEffect(() => {
-    const updateQrCodeSize = () => {
-      const width = window.innerWidth;
-      if (width <= 375) {
-        setQrCodeSize(100);
-      } else if (width <= 480) {
-        setQrCodeSize(116);
-      } else if (width <= 768) {
-        setQrCodeSize(160);
-      } else {
-        setQrCodeSize(200);
-      }
-    };
-
-    window.addEventListener('resize', updateQrCodeSize);
-    return () => window.removeEventListener('resize', updateQrCodeSize);
-  }, []);
-
   // Determine which view to show
   const showDesktopView = !isAndroid || forceDesktopView;
   const integrationName = branding?.integrationName || 'account';
@@ -135,6 +98,33 @@ export const AppClipModal: React.FC<AppClipModalProps> = ({
     ? `${branding.colorBackground}80` // Append 80 for 50% opacity in hex
     : 'rgba(0, 0, 0, 0.5)';
 
+  // Render AppClipPage views directly
+  const view = !showDesktopView ? (
+    <AndroidView
+      onSendToIos={() => setForceDesktopView(true)}
+      logoUrl={finalLogoUrl}
+      modalMode={true}
+    />
+  ) : (
+    <DesktopView
+      isLoading={false}
+      integrationName={integrationName}
+      qrCodeUrl={qrCodeUrl}
+      qrCodeSize={qrCodeSize}
+      isIosMobile={isIosMobile}
+      logoUrl={finalLogoUrl}
+      modalMode={true}
+    />
+  );
+
+  if (presentationStyle === 'embed') {
+    return isOpen ? (
+      <div className="passage-app-clip-embed" style={{ position: 'relative' }}>
+        {view}
+      </div>
+    ) : null;
+  }
+
   return (
     <AnimatePresence>
       {isOpen && (
@@ -177,24 +167,7 @@ export const AppClipModal: React.FC<AppClipModalProps> = ({
             pointerEvents: "auto",
           }}
         >
-          {/* Render AppClipPage views directly */}
-          {!showDesktopView ? (
-            <AndroidView
-              onSendToIos={() => setForceDesktopView(true)}
-              logoUrl={finalLogoUrl}
-              modalMode={true}
-            />
-          ) : (
-            <DesktopView
-              isLoading={false}
-              integrationName={integrationName}
-              qrCodeUrl={qrCodeUrl}
-              qrCodeSize={qrCodeSize}
-              isIosMobile={isIosMobile}
-              logoUrl={finalLogoUrl}
-              modalMode={true}
-            />
-          )}
+          {view}
         </motion.div>
       </motion.div>
       )}
@@ -1,5 +1,8 @@
+'use client';
+
 import React, { useEffect, useState } from 'react';
 import { useShortCode } from '../../hooks/useShortCode';
+import { useDeviceDetection, useQrCodeSize } from '../../hooks/useDeviceDetection';
 import { AndroidView } from './AndroidView';
 import { DesktopView } from './DesktopView';
 import { applyBranding, resetBranding } from '../../utils/branding';
@@ -30,28 +33,23 @@ export const AppClipPage: React.FC<AppClipPageProps> = ({
   integrationName: propIntegrationName,
   onIntentTokenResolved
 }) => {
-  // Device detection states
-  const [isAndroid, setIsAndroid] = useState(false);
-  const [isIosMobile, setIsIosMobile] = useState(false);
+  // Device detection runs after mount so the server and hydration renders match
+  const { isAndroid, isIosMobile } = useDeviceDetection();
   const [forceDesktopView, setForceDesktopView] = useState(false);
 
+  // QR code size follows the viewport once mounted
+  const qrCodeSize = useQrCodeSize();
 
-  // QR code state
-  const [qrCodeSize, setQrCodeSize] = useState(() => {
-    if (typeof window === 'undefined') return 200;
-    const width = window.innerWidth;
-    if (width <= 375) return 100;
-    if (width <= 480) return 116;
-    if (width <= 768) return 160;
-    return 200;
-  });
+  // Short code from URL params, read after mount for the same reason
+  const [urlShortCode, setUrlShortCode] = useState<string | null>(null);
+  useEffect(() => {
+    if (propShortCode) return;
+    const urlParams = new URLSearchParams(window.location.search);
+    setUrlShortCode(urlParams.get('shortCode') || urlParams.get('shortcode'));
+  }, [propShortCode]);
 
   // Get shortCode from props or URL params
-  const shortCode = propShortCode || (() => {
-    if (typeof window === 'undefined') return null;
-    const urlParams = new URLSearchParams(window.location.search);
-    return urlParams.get('shortCode') || urlParams.get('shortcode');
-  })();
+  const shortCode = propShortCode || urlShortCode;
 
   // Use hooks to resolve short code and handle intent token
   const {
@@ -67,24 +65,6 @@ export const AppClipPage: React.FC<AppClipPageProps> = ({
     ? `https://appclip.apple.com/id?p=com.passage.authenticator.Clip&shortCode=${encodeURIComponent(shortCode)}`
     : baseUrl;
 
-  // Device detection
-  useEffect(() => {
-    // Check for testing query parameters
-    const urlParams = new URLSearchParams(window.location.search);
-    const forceAndroid = urlParams.get('android') === 'true';
-    const forceIos = urlParams.get('ios') === 'true';
-
-    // Detect Android and iOS mobile devices
-    const userAgent = navigator.userAgent.toLowerCase();
-    const isAndroidDevice = /android/.test(userAgent);
-    const isIosDevice = /iphone|ipad|ipod/.test(userAgent);
-    const isMobileDevice = /android|webos|iphone|ipod|ipad|blackberry|iemobile|opera mini/i.test(userAgent);
-
-    // Allow query params to override detection for testing
-    setIsAndroid(forceAndroid || (isAndroidDevice && isMobileDevice));
-    setIsIosMobile(forceIos || (isIosDevice && isMobileDevice));
-  }, []);
-
   // Set default light theme on mount
   useEffect(() => {
     document.documentElement.style.setProperty('--color-background', '#ffffff');
@@ -111,26 +91,6 @@ export const AppClipPage: React.FC<AppClipPageProps> = ({
     };
   }, [config]);
 
-  // Update QR code size on window resize
-  useEffect(() => {
-    const updateQrCodeSize = () => {
-      const width = window.innerWidth;
-      if (width <= 375) {
-        setQrCodeSize(100); // Small screens (iPhone SE, etc.)
-      } else if (width <= 480) {
-        setQrCodeSize(116); // Medium mobile screens
-      } else if (width <= 768) {
-        setQrCodeSize(160); // Tablets and small desktops
-      } else {
-        setQrCodeSize(200); // Desktop screens
-      }
-    };
-
-    window.addEventListener('resize', updateQrCodeSize);
-    return () => window.removeEventListener('resize', updateQrCodeSize);
-  }, []);
-
-
   // Notify when intent token is resolved
   useEffect(() => {
     if (intentToken && onIntentTokenResolved) {
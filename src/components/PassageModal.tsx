@@ -1,8 +1,16 @@
+"use client";
+
 import React, { useEffect, useState, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { logger } from "../logger";
 import type { ConnectionStatus, PassageModalStyles } from "../types";
-import { USER_AGENT } from "../config";
+import {
+  RECONNECTING_NOTICE_STYLES,
+  RECONNECTING_NOTICE_TEXT,
+  buildConnectUrl,
+  buildSimulatedConnectDocument,
+  createConnectFrameMessageHandler,
+} from "../core/connectFrame";
 
 interface PassageModalProps {
   isOpen: boolean;
@@ -12,6 +20,9 @@ interface PassageModalProps {
   onClose: () => void;
   customStyles?: PassageModalStyles;
   presentationStyle?: "modal" | "embed";
+  isReconnecting?: boolean;
+  /** Render the local stand-in of simulate mode instead of the connect flow */
+  simulated?: boolean;
 }
 
 // Define default styles to avoid TypeScript errors
@@ -31,6 +42,8 @@ export const PassageModal: React.FC<PassageModalProps> = ({
   onClose,
   customStyles = defaultCustomStyles,
   presentationStyle = "modal",
+  isReconnecting = false,
+  simulated = false,
 }) => {
   // Memoize merged styles to prevent recalculation
   const mergedStyles = React.useMemo(
@@ -50,65 +63,47 @@ export const PassageModal: React.FC<PassageModalProps> = ({
   // Track iframe load state
   const [iframeLoaded, setIframeLoaded] = useState(true); // Default to true to hide loading
   const previousIntentToken = useRef<string | null>(null);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
 
-  // Listen for dimension updates and close events from iframe
+  // Listen for universal link and close events from iframe
   useEffect(() => {
-    const handleMessage = (event: MessageEvent) => {
-      logger.debug("[PassageModal] Received message from origin:", {
-        origin: event.origin,
-        expected: new URL(baseUrl).origin,
-      });
-
-      try {
-        const data =
-          typeof event.data === "string" ? JSON.parse(event.data) : event.data;
-
-        logger.debug("[PassageModal] Message data:", data);
-
-        // Handle universal link opening from iframe (allow from any origin for universal links)
-        if (data.type === "PASSAGE_UNIVERSAL_LINK" && data.url) {
-          logger.debug(
-            "[PassageModal] Received universal link request:",
-            data.url
-          );
-          // Navigate in the same tab instead of opening a new one
-          // This allows users to use the browser back button to return
-          window.location.href = data.url;
-          return;
-        }
-
-        // Only accept other messages from the iframe's origin
-        if (event.origin !== new URL(baseUrl).origin) {
-          logger.debug("[PassageModal] Ignoring message from different origin");
-          return;
-        }
-
-        // Handle close message from iframe
-        if (data.type === "PASSAGE_MODAL_CLOSE") {
-          logger.debug("[PassageModal] Received close message from iframe");
-          onClose();
-          return;
-        }
-      } catch (error) {
-        // Ignore non-JSON messages
-        logger.error("[PassageModal] Error parsing message:", error);
-      }
-    };
-
-    if (isOpen) {
-      window.addEventListener("message", handleMessage);
+    if (!isOpen) {
+      return;
     }
 
+    // The simulated stand-in is served from the host page's origin
+    const handleMessage = createConnectFrameMessageHandler(
+      simulated ? window.location.origin : baseUrl,
+      () => iframeRef.current,
+      onClose
+    );
+    window.addEventListener("message", handleMessage);
+
     return () => {
       window.removeEventListener("message", handleMessage);
     };
-  }, [isOpen, baseUrl, onClose]);
+  }, [isOpen, baseUrl, onClose, simulated]);
 
   if (!isOpen) {
     logger.debug("[PassageModal] Not rendering - isOpen:", isOpen);
     return null;
   }
 
+  const frameSource = (modal: boolean) =>
+    simulated
+      ? { srcDoc: buildSimulatedConnectDocument(status, modal) }
+      : { src: buildConnectUrl(baseUrl, intentToken, modal) };
+
+  const reconnectingNotice = isReconnecting && (
+    <div
+      className="passage-reconnecting"
+      role="status"
+      style={RECONNECTING_NOTICE_STYLES}
+    >
+      {RECONNECTING_NOTICE_TEXT}
+    </div>
+  );
+
   logger.debug("[PassageModal] Status:", {
     status,
     intentToken,
@@ -153,6 +148,7 @@ export const PassageModal: React.FC<PassageModalProps> = ({
         animate="visible"
         exit="exit"
         style={{
+          position: "relative",
           width: "100%",
           height: "100%",
           borderRadius: "12px",
@@ -162,7 +158,8 @@ export const PassageModal: React.FC<PassageModalProps> = ({
         }}
       >
         <iframe
-          src={`${baseUrl}/connect?intentToken=${intentToken || ""}&userAgent=${USER_AGENT}&modal=false`}
+          ref={iframeRef}
+          {...frameSource(false)}
           onLoad={() => setIframeLoaded(true)}
           style={{
             width: "100%",
@@ -174,6 +171,7 @@ export const PassageModal: React.FC<PassageModalProps> = ({
           allow="clipboard-read; clipboard-write"
           sandbox="allow-scripts allow-same-origin allow-forms allow-popups allow-popups-to-escape-sandbox"
         />
+        {reconnectingNotice}
       </motion.div>
     );
   }
@@ -208,7 +206,8 @@ export const PassageModal: React.FC<PassageModalProps> = ({
       >
         {/* Render fullscreen iframe - let ConnectFlow handle the modal */}
         <iframe
-          src={`${baseUrl}/connect?intentToken=${intentToken || ""}&userAgent=${USER_AGENT}&modal=true`}
+          ref={iframeRef}
+          {...frameSource(true)}
           onLoad={() => setIframeLoaded(true)}
           style={{
             width: "100vw",
@@ -222,6 +221,7 @@ export const PassageModal: React.FC<PassageModalProps> = ({
           allow="clipboard-read; clipboard-write"
           sandbox="allow-scripts allow-same-origin allow-forms allow-popups allow-popups-to-escape-sandbox"
         />
+        {reconnectingNotice}
       </motion.div>
 
       {/* CSS Animations */}
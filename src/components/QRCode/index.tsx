@@ -1,6 +1,31 @@
-import React, { useState, useEffect, CSSProperties } from 'react';
+'use client';
+
+import React, { useState, useEffect, useMemo, CSSProperties } from 'react';
 import QRCodeLib from 'qrcode';
 
+const QR_MARGIN = 1;
+
+/**
+ * Build an SVG path of the dark modules, synchronously so it can render on the server
+ */
+function createQRCodePath(value: string, level: 'L' | 'M' | 'Q' | 'H'): { path: string; size: number } | null {
+  try {
+    const { modules } = QRCodeLib.create(value, { errorCorrectionLevel: level });
+    let path = '';
+    for (let row = 0; row < modules.size; row++) {
+      for (let col = 0; col < modules.size; col++) {
+        if (modules.get(row, col)) {
+          path += `M${col + QR_MARGIN} ${row + QR_MARGIN}h1v1h-1z`;
+        }
+      }
+    }
+    return { path, size: modules.size + QR_MARGIN * 2 };
+  } catch (error) {
+    console.error('[QRCode] Error building QR code:', error);
+    return null;
+  }
+}
+
 export interface QRCodeProps {
   /** The value to encode in the QR code */
   value: string;
@@ -23,6 +48,7 @@ export interface QRCodeProps {
 /**
  * QR Code component for displaying QR codes
  * Uses the qrcode library to generate data URLs
+ * Renders an inline SVG until the image is ready, so server and hydration renders match
  */
 export const QRCode: React.FC<QRCodeProps> = ({
   value,
@@ -35,6 +61,7 @@ export const QRCode: React.FC<QRCodeProps> = ({
   alt = 'QR Code'
 }) => {
   const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string>('');
+  const svgFallback = useMemo(() => createQRCodePath(value, level), [value, level]);
 
   useEffect(() => {
     QRCodeLib.toDataURL(
@@ -58,6 +85,36 @@ export const QRCode: React.FC<QRCodeProps> = ({
     );
   }, [value, size, backgroundColor, foregroundColor, level]);
 
+  if (!qrCodeDataUrl && svgFallback) {
+    return (
+      <div
+        className={className}
+        style={{
+          display: 'inline-block',
+          ...style
+        }}
+      >
+        <svg
+          role="img"
+          aria-label={alt}
+          width={size}
+          height={size}
+          viewBox={`0 0 ${svgFallback.size} ${svgFallback.size}`}
+          shapeRendering="crispEdges"
+          style={{
+            display: 'block',
+            maxWidth: '100%',
+            height: 'auto',
+            width: '100%'
+          }}
+        >
+          <rect width="100%" height="100%" fill={backgroundColor} />
+          <path d={svgFallback.path} fill={foregroundColor} />
+        </svg>
+      </div>
+    );
+  }
+
   if (!qrCodeDataUrl) {
     return (
       <div
@@ -7,6 +7,33 @@ export const DEFAULT_UI_BASE_URL = "https://ui.runpassage.ai";
 export const DEFAULT_API_BASE_URL = "https://api.runpassage.ai";
 export const DEFAULT_SOCKET_URL = "https://api.runpassage.ai";
 
+// Environment presets, explicit uiUrl/apiUrl/socketUrl in PassageConfig take precedence
+export const PASSAGE_ENVIRONMENTS = {
+  production: {
+    uiUrl: DEFAULT_UI_BASE_URL,
+    apiUrl: DEFAULT_API_BASE_URL,
+    socketUrl: DEFAULT_SOCKET_URL,
+  },
+  sandbox: {
+    uiUrl: "https://ui.sandbox.runpassage.ai",
+    apiUrl: "https://api.sandbox.runpassage.ai",
+    socketUrl: "https://api.sandbox.runpassage.ai",
+  },
+  local: {
+    uiUrl: "http://localhost:3001",
+    apiUrl: "http://localhost:3000",
+    socketUrl: "http://localhost:3000",
+  },
+} as const;
+
+export const DEFAULT_ENVIRONMENT = "production";
+
+// Publishable key prefixes, live keys belong to production, test keys to sandbox/local
+export const PUBLISHABLE_KEY_PREFIX = "pk-";
+export const LIVE_KEY_PREFIX = "pk-live-";
+export const TEST_KEY_PREFIX = "pk-test-";
+export const SECRET_KEY_PREFIX = "sk-";
+
 // Path constants
 export const CONNECT_PATH = "/connect";
 export const DEFAULT_SOCKET_NAMESPACE = "/ws";
@@ -14,11 +41,45 @@ export const LOGGER_PATH = `/api/logger`;
 
 // API endpoint paths
 export const INTENT_TOKEN_PATH = "/intent-token";
+export const INTENT_TOKEN_LINKS_PATH = "/intent-token-links";
 export const ANALYTICS_PATH = "/api/analytics";
+export const CONNECTIONS_PATH = "/connections";
+
+// API request defaults
+export const DEFAULT_API_TIMEOUT = 30000;
+
+// Socket reconnection defaults
+export const DEFAULT_SOCKET_TIMEOUT = 10000;
+export const DEFAULT_RECONNECTION_MAX_ATTEMPTS = 10;
+export const DEFAULT_RECONNECTION_DELAY = 1000;
+export const DEFAULT_RECONNECTION_MAX_DELAY = 5000;
+export const DEFAULT_RECONNECTION_JITTER = 0.5;
+
+// How long a command sent to the session waits for its acknowledgement
+export const DEFAULT_COMMAND_TIMEOUT = 10000;
+
+// Interval of the REST polling used when the socket cannot connect
+export const DEFAULT_POLLING_INTERVAL = 3000;
+
+// Delay between two steps of a simulated session
+export const DEFAULT_SIMULATION_DELAY = 1000;
+
+// Intent token expiry defaults
+export const DEFAULT_TOKEN_EXPIRY_WARNING = 60000;
+// Tokens expiring within this window are treated as expired when opening
+export const TOKEN_EXPIRY_LEEWAY = 5000;
 
 // LocalStorage keys
 export const PASSAGE_DATA_RESULTS_KEY = "passage_data_results";
 
+// SessionStorage keys
+export const PASSAGE_ACTIVE_SESSION_KEY = "passage_active_session";
+
+// Result store defaults
+export const DEFAULT_RESULT_STORE_MAX_ENTRIES = 50;
+export const RESULT_STORE_DB_NAME = "passage";
+export const RESULT_STORE_DB_STORE = "results";
+
 // Configuration defaults object
 export const CONFIG_DEFAULTS = {
   uiUrl: DEFAULT_UI_BASE_URL,
@@ -0,0 +1,139 @@
+/**
+ * REST fallback for the socket
+ * Polls the connection endpoint and turns each change into the canonical socket events
+ */
+
+import type { Logger } from "./logger";
+import type { PassageSocketEvent } from "./socket-events";
+import type { ConnectionUpdate } from "./types";
+
+export interface ConnectionPollerOptions {
+  /**
+   * Fetch the current state of the connection, e.g. PassageClient.getConnection()
+   */
+  fetchConnection: () => Promise<ConnectionUpdate>;
+
+  /**
+   * Delay between two requests, in milliseconds
+   */
+  interval: number;
+
+  onEvent: (event: PassageSocketEvent) => void;
+  logger: Logger;
+}
+
+// Statuses after which the connection no longer changes
+const FINAL_STATUSES = ["data_available", "error", "rejected"];
+
+export class ConnectionPoller {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private previous: ConnectionUpdate | null = null;
+
+  constructor(private options: ConnectionPollerOptions) {}
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Poll once and keep polling on the interval
+   * Rejects when the first request fails, later failures are retried
+   */
+  async start(): Promise<void> {
+    this.stop();
+    this.running = true;
+    this.previous = null;
+
+    try {
+      await this.poll();
+    } catch (error) {
+      this.running = false;
+      throw error;
+    }
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    const connection = await this.options.fetchConnection();
+    if (!this.running) {
+      return;
+    }
+
+    this.toEvents(connection).forEach((event) => this.options.onEvent(event));
+    this.previous = connection;
+
+    if (FINAL_STATUSES.includes(connection.status)) {
+      this.options.logger.debug(
+        "[ConnectionPoller] Connection reached a final status, stopping:",
+        connection.status
+      );
+      this.stop();
+      return;
+    }
+
+    this.schedule();
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.poll().catch((error) => {
+        this.options.logger.warn(
+          "[ConnectionPoller] Failed to poll the connection, retrying:",
+          error
+        );
+        if (this.running) {
+          this.schedule();
+        }
+      });
+    }, this.options.interval);
+  }
+
+  // Events the socket would have sent between the previous and the current state
+  private toEvents(connection: ConnectionUpdate): PassageSocketEvent[] {
+    const events: PassageSocketEvent[] = [];
+    const previousPrompts = this.previous?.promptResults ?? [];
+
+    connection.promptResults.forEach((prompt) => {
+      const before = previousPrompts.find(
+        (candidate) => candidate.name === prompt.name
+      );
+      if (prompt.status !== "pending" && before?.status !== prompt.status) {
+        events.push({
+          type: "promptComplete",
+          payload: {
+            name: prompt.name,
+            promptId: prompt.promptId,
+            status: prompt.status,
+            result: prompt.result,
+          },
+        });
+      }
+    });
+
+    events.push({ type: "connection", payload: connection });
+
+    // The socket finishes a successful connection with a done command
+    if (connection.status === "data_available") {
+      events.push({
+        type: "done",
+        payload: {
+          success: true,
+          connectionId: connection.id,
+          data: connection.data,
+          source: "poll",
+        },
+      });
+    }
+
+    return events;
+  }
+}
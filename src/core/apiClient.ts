@@ -0,0 +1,396 @@
+/**
+ * HTTP client shared by every Passage API call
+ * Owns base URL resolution, auth headers, JSON parsing, timeouts and error normalization
+ */
+
+import { logger } from "../logger";
+import { DEFAULT_API_BASE_URL, DEFAULT_API_TIMEOUT } from "../config";
+
+export type PassageHttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export interface PassageApiClientOptions {
+  /**
+   * Base URL for API calls
+   * @default DEFAULT_API_BASE_URL
+   */
+  baseUrl?: string;
+
+  /**
+   * Publishable key sent on authenticated requests
+   */
+  publishableKey?: string;
+
+  /**
+   * Secret key sent as `Authorization: Bearer <key>` on authenticated requests
+   * Server-side only, takes precedence over the publishable key
+   */
+  secretKey?: string;
+
+  /**
+   * Request timeout in milliseconds (0 disables the timeout)
+   * @default 30000
+   */
+  timeout?: number;
+}
+
+export interface PassageRequestOptions {
+  method?: PassageHttpMethod;
+
+  /**
+   * Query string parameters, undefined and null values are skipped
+   */
+  query?: Record<string, string | number | boolean | undefined | null>;
+
+  /**
+   * Request body, serialized as JSON
+   */
+  body?: unknown;
+
+  headers?: Record<string, string>;
+
+  /**
+   * Send the client's secret key (`Bearer`) or publishable key (`Publishable`) as Authorization
+   */
+  authenticate?: boolean;
+
+  /**
+   * Publishable key override for this request (implies `authenticate`)
+   */
+  publishableKey?: string;
+
+  /**
+   * Intent token sent as the `x-intent-token` header
+   */
+  intentToken?: string;
+
+  /**
+   * Timeout override in milliseconds for this request
+   */
+  timeout?: number;
+
+  signal?: AbortSignal;
+
+  /**
+   * Message prefix used when the server does not return one
+   */
+  errorMessage?: string;
+}
+
+export interface PassageApiErrorOptions {
+  message: string;
+  status: number;
+  method: string;
+  url: string;
+  errorCode?: string;
+  details?: unknown;
+  statusText?: string;
+}
+
+/**
+ * Normalized error thrown by PassageApiClient
+ * `status` is 0 when the request never got a response (network error, timeout, abort)
+ */
+export class PassageApiError extends Error {
+  readonly status: number;
+  readonly statusText?: string;
+  readonly errorCode?: string;
+  readonly details?: unknown;
+  readonly method: string;
+  readonly url: string;
+
+  constructor(options: PassageApiErrorOptions) {
+    super(options.message);
+    this.name = "PassageApiError";
+    this.status = options.status;
+    this.statusText = options.statusText;
+    this.errorCode = options.errorCode;
+    this.details = options.details;
+    this.method = options.method;
+    this.url = options.url;
+  }
+}
+
+export function isPassageApiError(error: unknown): error is PassageApiError {
+  return error instanceof PassageApiError;
+}
+
+export class PassageApiClient {
+  private baseUrl: string;
+  private publishableKey?: string;
+  private secretKey?: string;
+  private timeout: number;
+
+  constructor(options: PassageApiClientOptions = {}) {
+    this.baseUrl = (options.baseUrl || DEFAULT_API_BASE_URL).replace(
+      /\/+$/,
+      ""
+    );
+    this.publishableKey = options.publishableKey;
+    this.secretKey = options.secretKey;
+    this.timeout = options.timeout ?? DEFAULT_API_TIMEOUT;
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  getPublishableKey(): string | undefined {
+    return this.publishableKey;
+  }
+
+  buildUrl(path: string, query?: PassageRequestOptions["query"]): string {
+    const url = `${this.baseUrl}/${path.replace(/^\/+/, "")}`;
+
+    if (!query) {
+      return url;
+    }
+
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        params.append(key, String(value));
+      }
+    });
+
+    const search = params.toString();
+    return search ? `${url}?${search}` : url;
+  }
+
+  async request<T = unknown>(
+    path: string,
+    options: PassageRequestOptions = {}
+  ): Promise<T> {
+    const method = options.method || "GET";
+    const url = this.buildUrl(path, options.query);
+    const headers: Record<string, string> = { ...options.headers };
+
+    if (options.body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+
+    if (options.authenticate && !options.publishableKey && this.secretKey) {
+      headers["Authorization"] = `Bearer ${this.secretKey}`;
+    } else if (options.authenticate || options.publishableKey) {
+      const key = options.publishableKey || this.publishableKey;
+      if (!key) {
+        throw new PassageApiError({
+          message: "publishableKey is required for this request",
+          status: 0,
+          errorCode: "MISSING_PUBLISHABLE_KEY",
+          method,
+          url,
+        });
+      }
+      headers["Authorization"] = `Publishable ${key}`;
+    }
+
+    if (options.intentToken) {
+      headers["x-intent-token"] = options.intentToken;
+    }
+
+    const timeout = options.timeout ?? this.timeout;
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer =
+      timeout > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeout)
+        : undefined;
+
+    const onAbort = () => controller.abort();
+    if (options.signal) {
+      if (options.signal.aborted) {
+        controller.abort();
+      } else {
+        options.signal.addEventListener("abort", onAbort);
+      }
+    }
+
+    const startedAt = Date.now();
+    logger.debug(`[PassageApiClient] ${method} ${url}`);
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers,
+          body:
+            options.body !== undefined
+              ? JSON.stringify(options.body)
+              : undefined,
+          signal: controller.signal,
+        });
+      } catch (error) {
+        if (timedOut) {
+          throw new PassageApiError({
+            message: `Request timed out after ${timeout}ms: ${method} ${url}`,
+            status: 0,
+            errorCode: "TIMEOUT",
+            method,
+            url,
+          });
+        }
+
+        if (options.signal?.aborted) {
+          throw new PassageApiError({
+            message: `Request aborted: ${method} ${url}`,
+            status: 0,
+            errorCode: "ABORTED",
+            method,
+            url,
+          });
+        }
+
+        throw new PassageApiError({
+          message: `Network error: ${method} ${url}${
+            error instanceof Error ? ` (${error.message})` : ""
+          }`,
+          status: 0,
+          errorCode: "NETWORK_ERROR",
+          method,
+          url,
+          details: error,
+        });
+      }
+
+      const text = await response.text();
+      const payload = parseBody(text);
+
+      logger.debug(
+        `[PassageApiClient] ${method} ${url} -> ${response.status}`,
+        {
+          durationMs: Date.now() - startedAt,
+        }
+      );
+
+      if (!response.ok) {
+        throw createErrorFromResponse(response, payload, {
+          method,
+          url,
+          errorMessage: options.errorMessage,
+        });
+      }
+
+      if (text && payload === undefined) {
+        throw new PassageApiError({
+          message: `Invalid JSON response: ${method} ${url}`,
+          status: response.status,
+          statusText: response.statusText,
+          errorCode: "INVALID_RESPONSE",
+          method,
+          url,
+          details: text,
+        });
+      }
+
+      return payload as T;
+    } catch (error) {
+      if (isPassageApiError(error)) {
+        logger.debug("[PassageApiClient] Request failed:", {
+          method: error.method,
+          url: error.url,
+          status: error.status,
+          errorCode: error.errorCode,
+          message: error.message,
+        });
+      }
+      throw error;
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      options.signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  get<T = unknown>(
+    path: string,
+    options: Omit<PassageRequestOptions, "method" | "body"> = {}
+  ): Promise<T> {
+    return this.request<T>(path, { ...options, method: "GET" });
+  }
+
+  post<T = unknown>(
+    path: string,
+    options: Omit<PassageRequestOptions, "method"> = {}
+  ): Promise<T> {
+    return this.request<T>(path, { ...options, method: "POST" });
+  }
+
+  put<T = unknown>(
+    path: string,
+    options: Omit<PassageRequestOptions, "method"> = {}
+  ): Promise<T> {
+    return this.request<T>(path, { ...options, method: "PUT" });
+  }
+
+  delete<T = unknown>(
+    path: string,
+    options: Omit<PassageRequestOptions, "method"> = {}
+  ): Promise<T> {
+    return this.request<T>(path, { ...options, method: "DELETE" });
+  }
+}
+
+function parseBody(text: string): unknown {
+  if (!text) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function createErrorFromResponse(
+  response: Response,
+  payload: unknown,
+  context: { method: string; url: string; errorMessage?: string }
+): PassageApiError {
+  const body = (
+    payload && typeof payload === "object" ? payload : {}
+  ) as Record<string, any>;
+
+  const errorCode: string | undefined = body.errorCode || body.code;
+  const details = body.details;
+
+  let message = `${context.errorMessage || "Request failed"}: ${
+    response.status
+  } ${response.statusText}`.trim();
+
+  const serverMessage = Array.isArray(body.message)
+    ? body.message.join("; ")
+    : body.message || (typeof body.error === "string" ? body.error : "");
+  if (serverMessage) {
+    message = serverMessage;
+  }
+
+  if (errorCode === "VALIDATION_001" && details) {
+    const validationErrors = Object.values(details)
+      .map((detail: any) => {
+        const resourceName = detail?.property || "Unknown";
+        const constraints =
+          detail?.constraints?.custom ||
+          detail?.constraints?.message ||
+          "Validation failed";
+        return `${resourceName}: ${constraints}`;
+      })
+      .join("; ");
+    message = `Validation failed: ${validationErrors}`;
+  }
+
+  return new PassageApiError({
+    message,
+    status: response.status,
+    statusText: response.statusText,
+    errorCode,
+    details,
+    method: context.method,
+    url: context.url,
+  });
+}
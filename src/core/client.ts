@@ -0,0 +1,765 @@
+/**
+ * Instance-based Passage client
+ * Each client owns its configuration, API client, socket manager and logger/analytics context
+ */
+
+import { logger as sharedLogger, Logger } from "../logger";
+import {
+  analytics as sharedAnalytics,
+  AnalyticsManager,
+  ANALYTICS_EVENTS,
+} from "../analytics";
+import { WebSocketManager } from "../websocket-manager";
+import { PassageApiClient, isPassageApiError } from "./apiClient";
+import { PassageEventBus } from "./eventBus";
+import type { PassageEventMap } from "./passageEvents";
+import { PassageSession } from "./session";
+import { PassageSessionManager } from "./sessionManager";
+import type { PersistedPassageSession } from "./sessionPersistence";
+import { PassageResultStore } from "./resultStore";
+import { buildIntentTokenRequest } from "./intentTokenRequest";
+import {
+  PassageConfigError,
+  ResolvedPassageConfig,
+  resolveConfig,
+  validateConfig,
+} from "./environment";
+import {
+  CONNECTIONS_PATH,
+  INTENT_TOKEN_PATH,
+  TOKEN_EXPIRY_LEEWAY,
+} from "../config";
+import {
+  decodeIntentToken,
+  isIntentTokenExpired,
+} from "../utils/intentTokenPayload";
+import {
+  createSimulatedAppClip,
+  createSimulatedIntentToken,
+  getSimulatedDataResult,
+} from "./simulation";
+import type {
+  PassageConfig,
+  PassageOpenOptions,
+  GenerateAppClipOptions,
+  GenerateAppClipResponse,
+  OpenAppClipOptions,
+  BrandingConfig,
+  ConnectionUpdate,
+  PassageDataOptions,
+  PassageDataResult,
+  PassageStoredDataResult,
+} from "../types";
+
+export interface PassageClientOptions {
+  /**
+   * Client identifier, also keys the session persisted for resume after a reload
+   */
+  id?: string;
+
+  /**
+   * Logger for this client, a dedicated instance is created when omitted
+   */
+  logger?: Logger;
+
+  /**
+   * Analytics for this client, a dedicated instance is created when omitted
+   */
+  analytics?: AnalyticsManager;
+
+  /**
+   * Socket manager for this client, a dedicated instance is created when omitted
+   */
+  socketManager?: WebSocketManager;
+}
+
+// Items of one resource as returned by the connections API
+type PassageResourceData = NonNullable<PassageDataResult["data"]>;
+
+let clientCounter = 0;
+
+export class PassageClient {
+  readonly id: string;
+  readonly logger: Logger;
+  readonly analytics: AnalyticsManager;
+  /** Lifecycle events of this client's sessions, read by usePassageEvents() */
+  readonly events: PassageEventBus<PassageEventMap> = new PassageEventBus();
+  private config: ResolvedPassageConfig | null = null;
+  private apiClient: PassageApiClient = new PassageApiClient();
+  private socketManager: WebSocketManager;
+  private resultStore: PassageResultStore = new PassageResultStore();
+  private sessionManager: PassageSessionManager = new PassageSessionManager(
+    this
+  );
+
+  constructor(config?: PassageConfig, options: PassageClientOptions = {}) {
+    this.id = options.id ?? `passage-client-${++clientCounter}`;
+    this.logger = options.logger ?? new Logger();
+    this.analytics = options.analytics ?? new AnalyticsManager();
+    this.socketManager =
+      options.socketManager ??
+      new WebSocketManager({ logger: this.logger, analytics: this.analytics });
+
+    if (config) {
+      this.configure(config);
+    }
+  }
+
+  /**
+   * Configure this client, replacing any previous configuration
+   * Throws a PassageConfigError (and keeps the previous configuration) when validation fails
+   */
+  configure(config: PassageConfig): void {
+    const issues = validateConfig(config);
+    if (issues.length > 0) {
+      const error = new PassageConfigError(issues);
+      this.analytics.track(ANALYTICS_EVENTS.SDK_CONFIGURE_ERROR, {
+        error: error.message,
+        issues,
+      });
+      this.logger.error("[PassageClient] Invalid configuration:", issues);
+      throw error;
+    }
+
+    const resolved = resolveConfig(config);
+    const simulated = config.mode === "simulate";
+
+    this.logger.setDebugMode(config.debug ?? false);
+    // Simulate mode keeps analytics and log shipping off the network too
+    if (simulated) {
+      this.logger.setHttpTransportEnabled(false);
+    }
+    this.analytics.configure({
+      enabled: !simulated,
+      webBaseUrl: resolved.uiUrl,
+    });
+    this.analytics.track(ANALYTICS_EVENTS.SDK_CONFIGURE_START, {
+      environment:
+        typeof config.environment === "object" ? "custom" : config.environment,
+    });
+
+    this.config = resolved;
+    this.apiClient = new PassageApiClient({
+      baseUrl: resolved.apiUrl,
+      publishableKey: resolved.publishableKey,
+    });
+    if (!simulated) {
+      this.logger.setWebBaseUrl(resolved.uiUrl);
+    }
+    this.resultStore.configure(resolved.storeResults);
+
+    this.analytics.track(ANALYTICS_EVENTS.SDK_CONFIGURE_SUCCESS, {
+      environment:
+        typeof config.environment === "object" ? "custom" : config.environment,
+    });
+
+    this.logger.debug("[PassageClient] Configured with:", {
+      clientId: this.id,
+      environment: config.environment,
+      uiUrl: resolved.uiUrl,
+      apiUrl: resolved.apiUrl,
+      socketUrl: resolved.socketUrl,
+      debug: config.debug,
+      hasPublishableKey: !!config.publishableKey,
+    });
+  }
+
+  /**
+   * Get a copy of the current configuration with URLs resolved, null until configure() is called
+   */
+  getConfig(): ResolvedPassageConfig | null {
+    return this.config ? { ...this.config } : null;
+  }
+
+  getPublishableKey(): string | undefined {
+    return this.config?.publishableKey;
+  }
+
+  /**
+   * Whether the client is configured with mode "simulate"
+   */
+  isSimulated(): boolean {
+    return this.config?.mode === "simulate";
+  }
+
+  /**
+   * Get the API client built from this client's configuration
+   */
+  getApiClient(): PassageApiClient {
+    return this.apiClient;
+  }
+
+  /**
+   * Get the socket manager used for this client's sessions
+   */
+  getSocketManager(): WebSocketManager {
+    return this.socketManager;
+  }
+
+  /**
+   * Create a socket manager sharing this client's logger and analytics
+   * Used for sessions running next to the one on getSocketManager()
+   */
+  createSocketManager(): WebSocketManager {
+    return new WebSocketManager({
+      logger: this.logger,
+      analytics: this.analytics,
+    });
+  }
+
+  /**
+   * Get the manager driving this client's connect flow and its view state
+   */
+  getSessionManager(): PassageSessionManager {
+    return this.sessionManager;
+  }
+
+  /**
+   * Get every open session of this client, in the order they were opened
+   */
+  getSessions(): PassageSession[] {
+    return this.sessionManager.getSessions();
+  }
+
+  /**
+   * Get the store holding this client's persisted connection results
+   */
+  getResultStore(): PassageResultStore {
+    return this.resultStore;
+  }
+
+  /**
+   * Get persisted connection results, oldest first
+   * Always empty unless `storeResults` is enabled in the configuration
+   */
+  getStoredResults(): Promise<PassageStoredDataResult[]> {
+    return this.resultStore.getAll();
+  }
+
+  clearStoredResults(): Promise<void> {
+    return this.resultStore.clear();
+  }
+
+  /**
+   * Get the data of a finished connection without rerunning the connect flow
+   * Reads the stored result, or fetches each resource from the API with `fetchFromApi`
+   * Resolves null when nothing is stored and `fetchFromApi` is not set
+   */
+  async getData(
+    options: PassageDataOptions
+  ): Promise<PassageDataResult | null> {
+    const payload = options.intentToken
+      ? decodeIntentToken(options.intentToken)
+      : null;
+    const connectionId = options.connectionId || payload?.sessionId;
+
+    if (!connectionId && !options.intentToken) {
+      throw new Error("getData requires an intentToken or a connectionId.");
+    }
+
+    if (options.fetchFromApi && this.isSimulated()) {
+      return getSimulatedDataResult(
+        this.config?.simulation,
+        options.intentToken
+      );
+    }
+
+    if (!options.fetchFromApi) {
+      const stored = await this.getStoredResults();
+      const match = [...stored]
+        .reverse()
+        .find(
+          (entry) =>
+            (connectionId && entry.connectionId === connectionId) ||
+            (options.intentToken && entry.intentToken === options.intentToken)
+        );
+
+      this.logger.debug("[PassageClient] getData from stored results:", {
+        connectionId,
+        found: !!match,
+      });
+
+      return match ?? null;
+    }
+
+    if (!connectionId) {
+      throw new Error(
+        "getData could not determine the connectionId, pass it explicitly or use a valid intentToken."
+      );
+    }
+
+    const resources =
+      options.resources ?? Object.keys(payload?.resources ?? {});
+    if (resources.length === 0) {
+      throw new Error(
+        "getData requires resources to fetch, pass them explicitly or use an intentToken that requests resources."
+      );
+    }
+
+    this.logger.debug("[PassageClient] Fetching data from API:", {
+      connectionId,
+      resources,
+    });
+
+    const fetched = await Promise.all(
+      resources.map(async (resource) => {
+        try {
+          const response = await this.apiClient.get<{
+            data?: PassageResourceData;
+          }>(`${CONNECTIONS_PATH}/${connectionId}/${resource}`, {
+            intentToken: options.intentToken,
+            errorMessage: `Failed to fetch ${resource} data`,
+          });
+          return { resource, items: response?.data ?? [] };
+        } catch (error) {
+          // 404 means the resource has no data for this connection
+          if (isPassageApiError(error) && error.status === 404) {
+            const items: PassageResourceData = [];
+            return { resource, items };
+          }
+          throw error;
+        }
+      })
+    );
+
+    const data: PassageResourceData = [];
+    const byResource: NonNullable<PassageDataResult["resources"]> = {};
+    fetched.forEach(({ resource, items }) => {
+      byResource[resource] = items;
+      data.push(...items);
+    });
+
+    const result: PassageStoredDataResult = {
+      data,
+      resources: byResource,
+      intentToken: options.intentToken,
+      connectionId,
+    };
+
+    await this.resultStore.record(result).catch((error) => {
+      this.logger.warn("[PassageClient] Failed to store fetched data:", error);
+    });
+
+    return result;
+  }
+
+  /**
+   * Fetch the current state of a connection
+   */
+  async getConnection(
+    connectionId: string,
+    intentToken?: string
+  ): Promise<ConnectionUpdate> {
+    if (this.isSimulated()) {
+      return (
+        this.sessionManager.getCurrentConnection(connectionId) ?? {
+          id: connectionId,
+          status: "pending",
+          promptResults: [],
+        }
+      );
+    }
+
+    return this.apiClient.get<ConnectionUpdate>(
+      `${CONNECTIONS_PATH}/${connectionId}`,
+      {
+        intentToken,
+        errorMessage: "Failed to fetch connection",
+      }
+    );
+  }
+
+  /**
+   * Recreate the handle of a session persisted before a page reload
+   * Callbacks passed to the original open() are lost, subscribe with session.on() instead
+   */
+  restoreSession(persisted: PersistedPassageSession): PassageSession {
+    this.logger.info("[PassageClient] Restoring session after reload");
+
+    const session = new PassageSession({
+      intentToken: persisted.intentToken,
+      connectionId: persisted.connectionId,
+      tokenExpiryWarning: this.config?.tokenExpiryWarning,
+    });
+    this.recordResults(session);
+    return session;
+  }
+
+  /**
+   * Resume the session left open before a page reload, resolves null when there is none
+   * PassageProvider does this on mount, call it yourself when using the SDK without React
+   */
+  resumeSession(
+    onResume?: (session: PassageSession) => void
+  ): Promise<PassageSession | null> {
+    if (typeof window === "undefined") {
+      return Promise.resolve(null);
+    }
+    return this.sessionManager.resumeActiveSession(onResume);
+  }
+
+  /**
+   * Open the Passage connection flow
+   * Renders in the PassageProvider owning this client, or straight into the DOM when none is mounted
+   * Returns a session handle whose `result` settles when the connection ends
+   * A missing or expired token is replaced by one from the tokenProvider before opening
+   * Throws when `providerId` targets a Provider that is not mounted
+   */
+  open(options: PassageOpenOptions): PassageSession {
+    this.logger.info("[PassageClient] Opening with token");
+    this.assertProviderMounted(options.providerId);
+
+    const hasValidToken =
+      !!options.token &&
+      !isIntentTokenExpired(options.token, TOKEN_EXPIRY_LEEWAY);
+    const tokenProvider = options.tokenProvider ?? this.config?.tokenProvider;
+
+    const session = new PassageSession({
+      intentToken: hasValidToken ? options.token : undefined,
+      callbacks: options,
+      signal: options.signal,
+      tokenExpiryWarning: this.config?.tokenExpiryWarning,
+    });
+
+    if (session.isClosed) {
+      this.logger.debug("[PassageClient] Open aborted before start");
+      return session;
+    }
+
+    this.recordResults(session);
+
+    if (typeof window === "undefined") {
+      session.fail({
+        error: "Passage can only be opened in a browser environment",
+        code: "OPEN_ERROR",
+      });
+      return session;
+    }
+
+    if (hasValidToken) {
+      this.sessionManager.startSession(options, session);
+      return session;
+    }
+
+    // Simulated sessions never ask the backend for a token
+    if (this.isSimulated()) {
+      const token = createSimulatedIntentToken();
+      session.setIntentToken(token);
+      this.sessionManager.startSession({ ...options, token }, session);
+      return session;
+    }
+
+    if (!tokenProvider) {
+      this.logger.error(
+        "[PassageClient]",
+        options.token ? "Intent token has expired" : "Token is required"
+      );
+      session.fail(
+        options.token
+          ? {
+              error:
+                "Intent token has expired. Pass a fresh token or configure a tokenProvider.",
+              code: "TOKEN_EXPIRED",
+            }
+          : {
+              error:
+                "Token is required to open Passage. Pass a token or configure a tokenProvider.",
+              code: "OPEN_ERROR",
+            }
+      );
+      return session;
+    }
+
+    this.logger.debug(
+      options.token
+        ? "[PassageClient] Intent token expired, requesting a fresh one"
+        : "[PassageClient] Requesting intent token from tokenProvider"
+    );
+
+    tokenProvider()
+      .then((token) => {
+        if (session.isClosed) {
+          return;
+        }
+
+        if (!token || typeof token !== "string") {
+          session.fail({
+            error: "tokenProvider did not return an intent token.",
+            code: "TOKEN_PROVIDER_ERROR",
+          });
+          return;
+        }
+
+        if (isIntentTokenExpired(token, TOKEN_EXPIRY_LEEWAY)) {
+          session.fail({
+            error: "tokenProvider returned an expired intent token.",
+            code: "TOKEN_EXPIRED",
+          });
+          return;
+        }
+
+        session.setIntentToken(token);
+        this.sessionManager.startSession({ ...options, token }, session);
+      })
+      .catch((error) => {
+        this.logger.error("[PassageClient] tokenProvider failed:", error);
+        session.fail({
+          error:
+            error instanceof Error
+              ? error.message
+              : "tokenProvider failed to return an intent token.",
+          code: "TOKEN_PROVIDER_ERROR",
+        });
+      });
+
+    return session;
+  }
+
+  /**
+   * Close the Passage flow of a connection, or every open flow without one
+   */
+  close(connectionId?: string): void {
+    this.logger.info("[PassageClient] Closing", connectionId ?? "all sessions");
+    this.sessionManager.close(connectionId);
+  }
+
+  /**
+   * Generate an app clip intent token by calling the backend API
+   * This method calls POST /intent-token endpoint
+   */
+  async generateAppClip(
+    options: GenerateAppClipOptions
+  ): Promise<GenerateAppClipResponse> {
+    if (!this.config) {
+      throw new Error(
+        "Passage must be configured before calling generateAppClip. Call configure() first."
+      );
+    }
+
+    if (this.isSimulated()) {
+      this.logger.debug("[PassageClient] Generating simulated app clip");
+      return createSimulatedAppClip(options);
+    }
+
+    if (!this.config.publishableKey) {
+      throw new Error(
+        "publishableKey is required in PassageConfig to generate app clip tokens."
+      );
+    }
+
+    const client = this.apiClient;
+
+    this.logger.debug("[PassageClient] Generating app clip intent token", {
+      endpoint: client.buildUrl(INTENT_TOKEN_PATH),
+      apiUrl: client.getBaseUrl(),
+      integrationId: options.integrationId,
+      hasResources: !!options.resources,
+      hasReturnUrl: !!options.returnUrl,
+    });
+
+    try {
+      const data = await client.post<GenerateAppClipResponse>(
+        INTENT_TOKEN_PATH,
+        {
+          authenticate: true,
+          errorMessage: "Failed to generate app clip",
+          body: buildIntentTokenRequest(options),
+        }
+      );
+
+      this.logger.debug(
+        "[PassageClient] App clip intent token generated successfully",
+        {
+          connectionId: data.connectionId,
+          shortToken: data.shortToken,
+          hasUrl: !!data.url,
+        }
+      );
+
+      return data;
+    } catch (error) {
+      this.logger.error("[PassageClient] Failed to generate app clip:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Open app clip modal by first generating the intent token and fetching branding
+   * This is a convenience method that combines generateAppClip + fetching branding + opening the app clip modal
+   */
+  async openAppClip(options: OpenAppClipOptions): Promise<PassageSession> {
+    this.logger.info("[PassageClient] ==== Opening app clip - START ====");
+    this.logger.debug("[PassageClient] openAppClip called with options:", {
+      integrationId: options.integrationId,
+      hasResources: !!options.resources,
+      hasCallbacks: !!(
+        options.onConnectionComplete || options.onConnectionError
+      ),
+    });
+
+    try {
+      this.assertProviderMounted(options.providerId);
+
+      // 1. Generate the intent token
+      this.logger.debug("[PassageClient] STEP 1: Generating intent token...");
+      const appClipData = await this.generateAppClip(options);
+      this.logger.info("[PassageClient] ✓ Intent token generated:", {
+        connectionId: appClipData.connectionId,
+        shortToken: appClipData.shortToken,
+        hasUrl: !!appClipData.url,
+        hasBrandingInResponse: !!appClipData.branding,
+      });
+
+      // 2. Extract branding configuration from response
+      let branding: BrandingConfig | null = null;
+
+      this.logger.debug(
+        "[PassageClient] STEP 2: Extracting branding configuration..."
+      );
+
+      if (appClipData.branding) {
+        this.logger.info(
+          "[PassageClient] ✓ Branding found in intent token response"
+        );
+        branding = appClipData.branding;
+        this.logger.debug("[PassageClient] Branding details from response:", {
+          integrationName: branding.integrationName,
+          colorPrimary: branding.colorPrimary,
+          colorBackground: branding.colorBackground,
+          colorCardBackground: branding.colorCardBackground,
+          colorText: branding.colorText,
+          colorTextSecondary: branding.colorTextSecondary,
+          logoUrl: branding.logoUrl,
+        });
+      } else {
+        this.logger.warn(
+          "[PassageClient] ⚠️  No branding found in intent token response"
+        );
+      }
+
+      const session = new PassageSession({
+        intentToken: appClipData.intentToken,
+        connectionId: appClipData.connectionId,
+        callbacks: options,
+        signal: options.signal,
+        tokenExpiryWarning: this.config?.tokenExpiryWarning,
+      });
+
+      if (session.isClosed) {
+        this.logger.debug("[PassageClient] App clip aborted before start");
+        return session;
+      }
+
+      this.recordResults(session);
+
+      // 3. Open the app clip modal with all data
+      this.logger.debug("[PassageClient] STEP 3: Opening app clip modal...");
+      if (typeof window !== "undefined") {
+        this.sessionManager.openAppClip(
+          appClipData,
+          branding,
+          session,
+          options.presentationStyle === "embed" ? options.container : null,
+          options.providerId ?? null
+        );
+      } else {
+        this.logger.error("[PassageClient] ✗ Window object not available");
+        session.fail({
+          error: "Passage can only be opened in a browser environment",
+          code: "OPEN_ERROR",
+        });
+      }
+
+      this.logger.info("[PassageClient] ==== App clip modal opened - END ====");
+      return session;
+    } catch (error) {
+      this.logger.error(
+        "[PassageClient] ✗✗✗ Failed to open app clip ✗✗✗",
+        error
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Throw when open() targets a Provider that is not mounted, the session would open unseen
+   */
+  private assertProviderMounted(providerId?: string): void {
+    if (providerId && !this.sessionManager.hasView(providerId)) {
+      throw new Error(`No PassageProvider with id '${providerId}' is mounted`);
+    }
+  }
+
+  /**
+   * Save the outcome of a session to the result store when it is enabled
+   */
+  private recordResults(session: PassageSession): void {
+    if (!this.resultStore.isEnabled) {
+      return;
+    }
+
+    const record = (result: PassageStoredDataResult) => {
+      this.resultStore.record(result).catch((error) => {
+        this.logger.error("[PassageClient] Failed to record result:", error);
+      });
+    };
+
+    const unsubscribeData = session.on("dataComplete", (data) => {
+      record({
+        data: data.data,
+        prompts: data.prompts,
+        intentToken: data.intentToken || session.intentToken,
+        connectionId: session.connectionId,
+      });
+    });
+    const unsubscribeComplete = session.on("connectionComplete", (data) => {
+      record({
+        data: data.data,
+        intentToken: data.intentToken || session.intentToken,
+        connectionId: data.connectionId || session.connectionId,
+        timestamp: data.metadata?.completedAt,
+      });
+    });
+    const unsubscribeClose = session.on("close", () => {
+      unsubscribeData();
+      unsubscribeComplete();
+      unsubscribeClose();
+    });
+  }
+}
+
+/**
+ * Create an isolated Passage client
+ * Use this to run several configurations side by side, e.g. a local backend next to production
+ *
+ * @example
+ * ```tsx
+ * const local = createPassageClient({ publishableKey: 'pk-test-...', environment: 'local' });
+ *
+ * <PassageProvider client={local}>...</PassageProvider>
+ * ```
+ */
+export function createPassageClient(
+  config: PassageConfig,
+  options?: PassageClientOptions
+): PassageClient {
+  return new PassageClient(config, options);
+}
+
+let defaultClient: PassageClient | null = null;
+
+/**
+ * Get the default client backing the global configure()/open()/close() functions
+ * It shares the SDK-wide logger, analytics and WebSocketManager singletons
+ */
+export function getDefaultClient(): PassageClient {
+  if (!defaultClient) {
+    defaultClient = new PassageClient(undefined, {
+      id: "default",
+      logger: sharedLogger,
+      analytics: sharedAnalytics,
+      socketManager: WebSocketManager.getInstance(),
+    });
+  }
+  return defaultClient;
+}
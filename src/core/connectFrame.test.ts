@@ -0,0 +1,63 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createConnectFrameMessageHandler } from "./connectFrame";
+
+const BASE_URL = "https://ui.runpassage.ai";
+
+function createIframe(): HTMLIFrameElement {
+  const iframe = document.createElement("iframe");
+  document.body.appendChild(iframe);
+  return iframe;
+}
+
+function postClose(source: Window | null, origin = BASE_URL): MessageEvent {
+  return new MessageEvent("message", {
+    data: { type: "PASSAGE_MODAL_CLOSE" },
+    origin,
+    source,
+  });
+}
+
+describe("createConnectFrameMessageHandler", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  it("only closes the session whose iframe asked to close", () => {
+    const first = createIframe();
+    const second = createIframe();
+    const onFirstClose = vi.fn();
+    const onSecondClose = vi.fn();
+    const handleFirst = createConnectFrameMessageHandler(
+      BASE_URL,
+      () => first,
+      onFirstClose
+    );
+    const handleSecond = createConnectFrameMessageHandler(
+      BASE_URL,
+      () => second,
+      onSecondClose
+    );
+
+    const event = postClose(second.contentWindow);
+    handleFirst(event);
+    handleSecond(event);
+
+    expect(onFirstClose).not.toHaveBeenCalled();
+    expect(onSecondClose).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignores close requests from another origin", () => {
+    const iframe = createIframe();
+    const onClose = vi.fn();
+    const handleMessage = createConnectFrameMessageHandler(
+      BASE_URL,
+      () => iframe,
+      onClose
+    );
+
+    handleMessage(postClose(iframe.contentWindow, "https://evil.example.com"));
+
+    expect(onClose).not.toHaveBeenCalled();
+  });
+});
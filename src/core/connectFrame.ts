@@ -0,0 +1,174 @@
+/**
+ * Helpers shared by every renderer of the connect flow (React modal, DOM renderer)
+ */
+
+import { logger } from "../logger";
+import { CONNECT_PATH, USER_AGENT } from "../config";
+import type { ConnectionStatus, GenerateAppClipResponse } from "../types";
+
+/**
+ * URL of the connect flow iframe
+ */
+export function buildConnectUrl(
+  baseUrl: string,
+  intentToken: string | null,
+  modal: boolean
+): string {
+  return `${baseUrl}${CONNECT_PATH}?intentToken=${intentToken || ""}&userAgent=${USER_AGENT}&modal=${modal}`;
+}
+
+const SIMULATED_STEPS: { status: ConnectionStatus; label: string }[] = [
+  { status: "pending", label: "Waiting for the user" },
+  { status: "connecting", label: "Connecting" },
+  { status: "connected", label: "Connected" },
+  { status: "data_processing", label: "Processing data" },
+  { status: "data_available", label: "Data available" },
+];
+
+/**
+ * Document of the local stand-in shown instead of the connect flow in simulate mode
+ * Its close button posts the same PASSAGE_MODAL_CLOSE message as the real flow
+ */
+export function buildSimulatedConnectDocument(
+  status: ConnectionStatus | null,
+  modal: boolean
+): string {
+  const failed = status === "rejected" || status === "error";
+  const current = SIMULATED_STEPS.findIndex((step) => step.status === status);
+  const steps = SIMULATED_STEPS.map((step, index) => {
+    const state =
+      index < current || status === "data_available"
+        ? "done"
+        : index === current
+          ? "active"
+          : "";
+    return `<li class="${state}">${step.label}</li>`;
+  }).join("");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<style>
+  html, body { margin: 0; height: 100%; font-family: system-ui, sans-serif; }
+  body { display: flex; align-items: center; justify-content: center;
+    background: ${modal ? "rgba(0, 0, 0, 0.5)" : "#FFFFFF"}; }
+  .card { width: 320px; max-width: 90vw; padding: 24px; border-radius: 16px;
+    background: #FFFFFF; color: #111111; box-sizing: border-box; }
+  .badge { display: inline-block; padding: 2px 8px; border-radius: 999px;
+    background: #FEF3C7; color: #92400E; font-size: 12px; font-weight: 600; }
+  h1 { margin: 12px 0 4px; font-size: 18px; }
+  p { margin: 0 0 16px; color: #555555; font-size: 14px; }
+  ol { margin: 0 0 16px; padding-left: 20px; color: #999999; font-size: 14px; line-height: 1.8; }
+  li.done { color: #15803D; }
+  li.active { color: #111111; font-weight: 600; }
+  .error { color: #B91C1C; font-weight: 600; }
+  button { width: 100%; padding: 10px; border: none; border-radius: 8px;
+    background: #111111; color: #FFFFFF; font-size: 14px; cursor: pointer; }
+</style>
+</head>
+<body>
+<div class="card">
+  <span class="badge">Simulated</span>
+  <h1>Passage Connect</h1>
+  <p>Scripted session, no request reaches Passage.</p>
+  <ol>${steps}</ol>
+  ${failed ? `<p class="error">Connection ${status === "rejected" ? "rejected" : "failed"}</p>` : ""}
+  <button type="button" onclick="parent.postMessage({ type: 'PASSAGE_MODAL_CLOSE' }, '*')">Close</button>
+</div>
+</body>
+</html>`;
+}
+
+/**
+ * Notice shown over the connect flow while the socket reconnects
+ */
+export const RECONNECTING_NOTICE_TEXT = "Reconnecting…";
+
+export const RECONNECTING_NOTICE_STYLES = {
+  position: "absolute",
+  top: "16px",
+  left: "50%",
+  transform: "translateX(-50%)",
+  padding: "8px 16px",
+  borderRadius: "999px",
+  backgroundColor: "rgba(0, 0, 0, 0.75)",
+  color: "#FFFFFF",
+  fontFamily: "inherit",
+  fontSize: "14px",
+  pointerEvents: "none",
+  zIndex: 1,
+} as const;
+
+/**
+ * URL encoded in the App Clip QR code, the App Clip invocation when a short token exists
+ */
+export function getAppClipQrCodeUrl(
+  appClipData: GenerateAppClipResponse
+): string {
+  return appClipData.shortToken
+    ? `https://appclip.apple.com/id?p=com.passage.authenticator.Clip&shortCode=${encodeURIComponent(appClipData.shortToken)}`
+    : appClipData.url;
+}
+
+/**
+ * Build the window message handler for the connect flow iframe
+ * Follows universal links from any origin, accepts close requests only from the iframe itself
+ * so a close posted by another session's iframe on the same origin is ignored
+ */
+export function createConnectFrameMessageHandler(
+  baseUrl: string,
+  getIframe: () => HTMLIFrameElement | null,
+  onClose: () => void
+): (event: MessageEvent) => void {
+  const expectedOrigin = new URL(baseUrl).origin;
+
+  return (event: MessageEvent) => {
+    logger.debug("[ConnectFrame] Received message from origin:", {
+      origin: event.origin,
+      expected: expectedOrigin,
+    });
+
+    try {
+      const data =
+        typeof event.data === "string" ? JSON.parse(event.data) : event.data;
+
+      logger.debug("[ConnectFrame] Message data:", data);
+
+      // Handle universal link opening from iframe (allow from any origin for universal links)
+      if (data.type === "PASSAGE_UNIVERSAL_LINK" && data.url) {
+        logger.debug(
+          "[ConnectFrame] Received universal link request:",
+          data.url
+        );
+        // Navigate in the same tab instead of opening a new one
+        // This allows users to use the browser back button to return
+        window.location.href = data.url;
+        return;
+      }
+
+      // Only accept other messages from the iframe's origin
+      if (event.origin !== expectedOrigin) {
+        logger.debug("[ConnectFrame] Ignoring message from different origin");
+        return;
+      }
+
+      // Every open session listens on the same window, only act on this session's iframe
+      const iframe = getIframe();
+      if (!iframe || event.source !== iframe.contentWindow) {
+        logger.debug("[ConnectFrame] Ignoring message from another frame");
+        return;
+      }
+
+      // Handle close message from iframe
+      if (data.type === "PASSAGE_MODAL_CLOSE") {
+        logger.debug("[ConnectFrame] Received close message from iframe");
+        onClose();
+        return;
+      }
+    } catch (error) {
+      // Ignore non-JSON messages
+      logger.error("[ConnectFrame] Error parsing message:", error);
+    }
+  };
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import { resolveConfig, validateConfig } from "./environment";
+import { DEFAULT_API_BASE_URL, DEFAULT_UI_BASE_URL } from "../config";
+
+describe("validateConfig", () => {
+  it("accepts an empty configuration", () => {
+    expect(validateConfig({})).toEqual([]);
+  });
+
+  it("accepts publishable keys matching the environment", () => {
+    expect(
+      validateConfig({
+        publishableKey: "pk-live-0d017c4c-307e-441c-8b72-cb60f64f77f8",
+        environment: "production",
+      })
+    ).toEqual([]);
+    expect(
+      validateConfig({ publishableKey: "pk-test-abc", environment: "sandbox" })
+    ).toEqual([]);
+    expect(validateConfig({ publishableKey: "pk-live-abc" })).toEqual([]);
+  });
+
+  it("rejects keys that are not publishable keys", () => {
+    const [secret] = validateConfig({ publishableKey: "sk-live-abc" });
+    const [unknown] = validateConfig({ publishableKey: "pk_live_abc" });
+
+    expect(secret).toContain("looks like a secret key");
+    expect(unknown).toContain('publishableKey must start with "pk-"');
+  });
+
+  it("rejects keys belonging to another environment", () => {
+    const [live] = validateConfig({
+      publishableKey: "pk-live-abc",
+      environment: "local",
+    });
+    const [test] = validateConfig({
+      publishableKey: "pk-test-abc",
+      environment: "production",
+    });
+
+    expect(live).toContain(
+      'live key ("pk-live-...") but environment is "local"'
+    );
+    expect(test).toContain(
+      'test key ("pk-test-...") but environment is "production"'
+    );
+  });
+
+  it("rejects an empty publishable key", () => {
+    expect(validateConfig({ publishableKey: "" })).toEqual([
+      "publishableKey must be a non-empty string.",
+    ]);
+  });
+
+  it("rejects unknown environment names", () => {
+    const issues = validateConfig({ environment: "staging" as any });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toContain('environment "staging" is not supported');
+  });
+
+  it("requires uiUrl and apiUrl in custom environments", () => {
+    const issues = validateConfig({
+      environment: { uiUrl: "https://ui.example.com" } as any,
+    });
+
+    expect(issues).toContain(
+      "environment with custom URLs must define both uiUrl and apiUrl."
+    );
+  });
+
+  it("rejects relative, non-http and query string URLs", () => {
+    const issues = validateConfig({
+      uiUrl: "/connect",
+      apiUrl: "ftp://api.example.com",
+      socketUrl: "https://api.example.com?debug=1",
+    });
+
+    expect(issues).toHaveLength(3);
+    expect(issues[0]).toContain("uiUrl");
+    expect(issues[1]).toContain("apiUrl");
+    expect(issues[2]).toContain("socketUrl");
+  });
+
+  it("requires the socket namespace to start with a slash", () => {
+    expect(validateConfig({ socketNamespace: "ws" })).toHaveLength(1);
+  });
+
+  it("reports every problem at once", () => {
+    const issues = validateConfig({
+      publishableKey: "",
+      tokenProvider: "token" as any,
+      mode: "replay" as any,
+      simulation: { outcome: "timeout" as any, delay: -1 },
+    });
+
+    expect(issues).toHaveLength(5);
+  });
+});
+
+describe("resolveConfig", () => {
+  it("uses the production URLs by default", () => {
+    const resolved = resolveConfig({});
+
+    expect(resolved.uiUrl).toBe(DEFAULT_UI_BASE_URL);
+    expect(resolved.apiUrl).toBe(DEFAULT_API_BASE_URL);
+    expect(resolved.socketNamespace).toBe("/ws");
+  });
+
+  it("derives every URL from the sandbox preset", () => {
+    const resolved = resolveConfig({ environment: "sandbox" });
+
+    expect(resolved.uiUrl).toBe("https://ui.sandbox.runpassage.ai");
+    expect(resolved.apiUrl).toBe("https://api.sandbox.runpassage.ai");
+    expect(resolved.socketUrl).toBe("https://api.sandbox.runpassage.ai");
+  });
+
+  it("matches the local development setup", () => {
+    const resolved = resolveConfig({ environment: "local" });
+
+    expect(resolved.uiUrl).toBe("http://localhost:3001");
+    expect(resolved.apiUrl).toBe("http://localhost:3000");
+    expect(resolved.socketUrl).toBe("http://localhost:3000");
+  });
+
+  it("lets explicit URLs override the environment preset", () => {
+    const resolved = resolveConfig({
+      environment: "local",
+      apiUrl: "https://api.example.com",
+    });
+
+    expect(resolved.uiUrl).toBe("http://localhost:3001");
+    expect(resolved.apiUrl).toBe("https://api.example.com");
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Environment presets and configuration validation
+ * Derives uiUrl/apiUrl/socketUrl consistently and reports actionable configuration errors
+ */
+
+import {
+  PASSAGE_ENVIRONMENTS,
+  DEFAULT_ENVIRONMENT,
+  DEFAULT_SOCKET_NAMESPACE,
+  PUBLISHABLE_KEY_PREFIX,
+  LIVE_KEY_PREFIX,
+  TEST_KEY_PREFIX,
+  SECRET_KEY_PREFIX,
+} from "../config";
+import type {
+  PassageConfig,
+  PassageEnvironment,
+  PassageEnvironmentName,
+} from "../types";
+
+/**
+ * Configuration with every URL resolved from the environment preset
+ */
+export interface ResolvedPassageConfig extends PassageConfig {
+  uiUrl: string;
+  apiUrl: string;
+  socketUrl: string;
+  socketNamespace: string;
+}
+
+/**
+ * Thrown by configure() when the configuration is invalid
+ * `issues` lists every problem found, not only the first one
+ */
+export class PassageConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(
+      `Invalid Passage configuration:\n${issues
+        .map((issue) => `- ${issue}`)
+        .join("\n")}`
+    );
+    this.name = "PassageConfigError";
+    this.issues = issues;
+  }
+}
+
+function isEnvironmentName(value: unknown): value is PassageEnvironmentName {
+  return (
+    typeof value === "string" &&
+    Object.prototype.hasOwnProperty.call(PASSAGE_ENVIRONMENTS, value)
+  );
+}
+
+function getEnvironmentUrls(environment?: PassageEnvironment): {
+  uiUrl?: string;
+  apiUrl?: string;
+  socketUrl?: string;
+} {
+  if (environment && typeof environment === "object") {
+    return {
+      uiUrl: environment.uiUrl,
+      apiUrl: environment.apiUrl,
+      socketUrl: environment.socketUrl || environment.apiUrl,
+    };
+  }
+
+  const name = isEnvironmentName(environment)
+    ? environment
+    : DEFAULT_ENVIRONMENT;
+  return PASSAGE_ENVIRONMENTS[name];
+}
+
+/**
+ * Resolve the URLs of a configuration from its environment preset
+ */
+export function resolveConfig(config: PassageConfig): ResolvedPassageConfig {
+  const urls = getEnvironmentUrls(config.environment);
+  const defaults = PASSAGE_ENVIRONMENTS[DEFAULT_ENVIRONMENT];
+
+  return {
+    ...config,
+    uiUrl: config.uiUrl || urls.uiUrl || defaults.uiUrl,
+    apiUrl: config.apiUrl || urls.apiUrl || defaults.apiUrl,
+    socketUrl:
+      config.socketUrl ||
+      urls.socketUrl ||
+      config.apiUrl ||
+      urls.apiUrl ||
+      defaults.socketUrl,
+    socketNamespace: config.socketNamespace || DEFAULT_SOCKET_NAMESPACE,
+  };
+}
+
+function validateUrl(field: string, value: unknown, issues: string[]): void {
+  if (value === undefined) {
+    return;
+  }
+
+  if (typeof value !== "string" || !value) {
+    issues.push(`${field} must be a non-empty string URL.`);
+    return;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    issues.push(
+      `${field} "${value}" is not an absolute URL. Use the full origin, e.g. "https://api.runpassage.ai".`
+    );
+    return;
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    issues.push(
+      `${field} "${value}" must use http or https, got "${url.protocol}".`
+    );
+  }
+
+  if (url.search || url.hash) {
+    issues.push(`${field} "${value}" must not contain a query string or hash.`);
+  }
+}
+
+/**
+ * Validate a configuration, returning the list of problems found
+ */
+export function validateConfig(config: PassageConfig): string[] {
+  const issues: string[] = [];
+  const { environment, publishableKey } = config;
+
+  if (typeof environment === "string" && !isEnvironmentName(environment)) {
+    issues.push(
+      `environment "${environment}" is not supported. Use one of ${Object.keys(
+        PASSAGE_ENVIRONMENTS
+      )
+        .map((name) => `"${name}"`)
+        .join(", ")} or an object with custom uiUrl/apiUrl.`
+    );
+  } else if (environment && typeof environment === "object") {
+    if (!environment.uiUrl || !environment.apiUrl) {
+      issues.push(
+        "environment with custom URLs must define both uiUrl and apiUrl."
+      );
+    }
+    validateUrl("environment.uiUrl", environment.uiUrl, issues);
+    validateUrl("environment.apiUrl", environment.apiUrl, issues);
+    validateUrl("environment.socketUrl", environment.socketUrl, issues);
+  }
+
+  validateUrl("uiUrl", config.uiUrl, issues);
+  validateUrl("apiUrl", config.apiUrl, issues);
+  validateUrl("socketUrl", config.socketUrl, issues);
+
+  if (
+    config.socketNamespace !== undefined &&
+    !config.socketNamespace.startsWith("/")
+  ) {
+    issues.push(
+      `socketNamespace "${config.socketNamespace}" must start with "/", e.g. "/ws".`
+    );
+  }
+
+  if (publishableKey !== undefined) {
+    if (typeof publishableKey !== "string" || !publishableKey) {
+      issues.push("publishableKey must be a non-empty string.");
+    } else if (publishableKey.startsWith(SECRET_KEY_PREFIX)) {
+      issues.push(
+        `publishableKey looks like a secret key ("${SECRET_KEY_PREFIX}..."). Never ship secret keys to the browser, use the publishable key ("${PUBLISHABLE_KEY_PREFIX}...") from your dashboard.`
+      );
+    } else if (!publishableKey.startsWith(PUBLISHABLE_KEY_PREFIX)) {
+      issues.push(
+        `publishableKey must start with "${PUBLISHABLE_KEY_PREFIX}". Copy the publishable key from your dashboard.`
+      );
+    } else if (typeof environment === "string") {
+      if (
+        publishableKey.startsWith(LIVE_KEY_PREFIX) &&
+        environment !== "production"
+      ) {
+        issues.push(
+          `publishableKey is a live key ("${LIVE_KEY_PREFIX}...") but environment is "${environment}". Use a test key ("${TEST_KEY_PREFIX}...") or set environment to "production".`
+        );
+      } else if (
+        publishableKey.startsWith(TEST_KEY_PREFIX) &&
+        environment === "production"
+      ) {
+        issues.push(
+          `publishableKey is a test key ("${TEST_KEY_PREFIX}...") but environment is "production". Use a live key ("${LIVE_KEY_PREFIX}...") or set environment to "sandbox".`
+        );
+      }
+    }
+  }
+
+  if (
+    config.tokenProvider !== undefined &&
+    typeof config.tokenProvider !== "function"
+  ) {
+    issues.push(
+      "tokenProvider must be a function returning a Promise<string>."
+    );
+  }
+
+  if (
+    config.mode !== undefined &&
+    config.mode !== "live" &&
+    config.mode !== "simulate"
+  ) {
+    issues.push(
+      `mode "${config.mode}" is not supported. Use "live" or "simulate".`
+    );
+  }
+
+  if (config.simulation) {
+    const { outcome, delay } = config.simulation;
+    if (
+      outcome !== undefined &&
+      !["success", "rejected", "error"].includes(outcome)
+    ) {
+      issues.push(
+        `simulation.outcome "${outcome}" is not supported. Use "success", "rejected" or "error".`
+      );
+    }
+    if (delay !== undefined && !(delay >= 0)) {
+      issues.push(
+        `simulation.delay must be a non-negative number of milliseconds, got ${delay}.`
+      );
+    }
+  }
+
+  if (
+    config.transport !== undefined &&
+    typeof config.transport !== "function"
+  ) {
+    issues.push("transport must be a function returning a PassageTransport.");
+  }
+
+  if (
+    config.tokenExpiryWarning !== undefined &&
+    !(config.tokenExpiryWarning >= 0)
+  ) {
+    issues.push(
+      `tokenExpiryWarning must be a non-negative number of milliseconds, got ${config.tokenExpiryWarning}.`
+    );
+  }
+
+  if (config.storeResults && typeof config.storeResults === "object") {
+    const { maxEntries, ttl } = config.storeResults;
+    if (maxEntries !== undefined && !(maxEntries >= 0)) {
+      issues.push(
+        `storeResults.maxEntries must be a non-negative number, got ${maxEntries}.`
+      );
+    }
+    if (ttl !== undefined && !(ttl >= 0)) {
+      issues.push(
+        `storeResults.ttl must be a non-negative number of milliseconds, got ${ttl}.`
+      );
+    }
+  }
+
+  if (config.reconnection && typeof config.reconnection === "object") {
+    const { maxAttempts, delay, maxDelay, jitter, timeout } =
+      config.reconnection;
+    if (maxAttempts !== undefined && !(maxAttempts >= 0)) {
+      issues.push(
+        `reconnection.maxAttempts must be a non-negative number, got ${maxAttempts}.`
+      );
+    }
+    if (delay !== undefined && !(delay >= 0)) {
+      issues.push(
+        `reconnection.delay must be a non-negative number of milliseconds, got ${delay}.`
+      );
+    }
+    if (maxDelay !== undefined && !(maxDelay >= (delay ?? 0))) {
+      issues.push(
+        `reconnection.maxDelay must be a number of milliseconds no lower than reconnection.delay, got ${maxDelay}.`
+      );
+    }
+    if (jitter !== undefined && !(jitter >= 0 && jitter <= 1)) {
+      issues.push(
+        `reconnection.jitter must be a number between 0 and 1, got ${jitter}.`
+      );
+    }
+    if (timeout !== undefined && !(timeout > 0)) {
+      issues.push(
+        `reconnection.timeout must be a positive number of milliseconds, got ${timeout}.`
+      );
+    }
+  }
+
+  if (config.pollingFallback && typeof config.pollingFallback === "object") {
+    const { interval } = config.pollingFallback;
+    if (interval !== undefined && !(interval > 0)) {
+      issues.push(
+        `pollingFallback.interval must be a positive number of milliseconds, got ${interval}.`
+      );
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,54 @@
+/**
+ * Typed in-memory event bus
+ * Each client owns one, so events never leak to other clients or Providers on the page
+ */
+
+import { logger } from "../logger";
+
+type BusListener<T> = (payload: T) => void;
+
+export class PassageEventBus<M extends object> {
+  private listeners: Map<keyof M, Set<BusListener<any>>> = new Map();
+
+  /**
+   * Subscribe to an event, returns an unsubscribe function
+   */
+  on<E extends keyof M>(event: E, listener: BusListener<M[E]>): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  emit<E extends keyof M>(event: E, payload: M[E]): void {
+    this.listeners.get(event)?.forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (error) {
+        logger.error(
+          `[PassageEventBus] Error in '${String(event)}' listener:`,
+          error
+        );
+      }
+    });
+  }
+
+  /**
+   * Number of listeners of an event, or of every event when omitted
+   */
+  listenerCount(event?: keyof M): number {
+    if (event !== undefined) {
+      return this.listeners.get(event)?.size ?? 0;
+    }
+    let count = 0;
+    this.listeners.forEach((listeners) => {
+      count += listeners.size;
+    });
+    return count;
+  }
+}
@@ -4,7 +4,8 @@
  */
 
 import { logger } from '../logger';
-import { getConfig } from './passage';
+import { getApiClient, getConfig, getPublishableKey } from './passage';
+import { DEFAULT_UI_BASE_URL } from '../config';
 
 // Types for intent token links
 
@@ -82,9 +83,6 @@ export async function createIntentTokenLink(
   data: CreateIntentTokenLinkRequest,
   publishableKey?: string
 ): Promise<CreateIntentTokenLinkResponse> {
-  const config = getConfig();
-  const apiUrl = config?.apiUrl || 'https://api.getpassage.ai';
-  const { getPublishableKey } = await import('./passage');
   const key = publishableKey || getPublishableKey();
 
   if (!key) {
@@ -94,23 +92,12 @@ export async function createIntentTokenLink(
   try {
     logger.info('[IntentTokenLink] Creating new intent token link');
 
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-      'Authorization': `Publishable ${key}`
-    };
-
-    const response = await fetch(`${apiUrl}/intent-token-links`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(data)
+    const result = await getApiClient().post<any>('/intent-token-links', {
+      publishableKey: key,
+      body: data,
+      errorMessage: 'Failed to create intent token link'
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to create intent token link: ${response.statusText}`);
-    }
-
-    const result = await response.json();
-
     // API may return shortCode instead of shortToken
     if (result.shortCode && !result.shortToken) {
       result.shortToken = result.shortCode;
@@ -138,27 +125,13 @@ export async function getIntentTokenLinks(
   page: number = 1,
   limit: number = 10
 ): Promise<IntentTokenLink[]> {
-  const config = getConfig();
-  const apiUrl = config?.apiUrl || 'https://api.getpassage.ai';
-
   try {
     logger.info('[IntentTokenLink] Fetching intent token links');
 
-    const response = await fetch(
-      `${apiUrl}/intent-token-links?page=${page}&limit=${limit}`,
-      {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json'
-        }
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch intent token links: ${response.statusText}`);
-    }
-
-    const result: IntentTokenLinksResponse = await response.json();
+    const result = await getApiClient().get<IntentTokenLinksResponse>('/intent-token-links', {
+      query: { page, limit },
+      errorMessage: 'Failed to fetch intent token links'
+    });
 
     // Enhance links with computed URLs
     const enhancedLinks = result.data.map(link => enhanceIntentTokenLink(link));
@@ -178,25 +151,13 @@ export async function getIntentTokenLinks(
  * @returns The intent token link
  */
 export async function getIntentTokenLink(linkId: string): Promise<IntentTokenLink> {
-  const config = getConfig();
-  const apiUrl = config?.apiUrl || 'https://api.getpassage.ai';
-
   try {
     logger.info('[IntentTokenLink] Fetching intent token link:', linkId);
 
-    const response = await fetch(`${apiUrl}/intent-token-links/${linkId}`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json'
-      }
+    const link = await getApiClient().get<IntentTokenLink>(`/intent-token-links/${linkId}`, {
+      errorMessage: 'Failed to fetch intent token link'
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch intent token link: ${response.statusText}`);
-    }
-
-    const link = await response.json();
-
     logger.info('[IntentTokenLink] Successfully fetched link');
 
     return enhanceIntentTokenLink(link);
@@ -216,26 +177,14 @@ export async function updateIntentTokenLink(
   linkId: string,
   data: Partial<IntentTokenLink>
 ): Promise<IntentTokenLink> {
-  const config = getConfig();
-  const apiUrl = config?.apiUrl || 'https://api.getpassage.ai';
-
   try {
     logger.info('[IntentTokenLink] Updating intent token link:', linkId);
 
-    const response = await fetch(`${apiUrl}/intent-token-links/${linkId}`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(data)
+    const link = await getApiClient().put<IntentTokenLink>(`/intent-token-links/${linkId}`, {
+      body: data,
+      errorMessage: 'Failed to update intent token link'
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to update intent token link: ${response.statusText}`);
-    }
-
-    const link = await response.json();
-
     logger.info('[IntentTokenLink] Successfully updated link');
 
     return link;
@@ -250,23 +199,13 @@ export async function updateIntentTokenLink(
  * @param linkId The ID of the link to deactivate
  */
 export async function deactivateIntentTokenLink(linkId: string): Promise<void> {
-  const config = getConfig();
-  const apiUrl = config?.apiUrl || 'https://api.getpassage.ai';
-
   try {
     logger.info('[IntentTokenLink] Deactivating intent token link:', linkId);
 
-    const response = await fetch(`${apiUrl}/intent-token-links/${linkId}/deactivate`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      }
+    await getApiClient().post(`/intent-token-links/${linkId}/deactivate`, {
+      errorMessage: 'Failed to deactivate intent token link'
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to deactivate intent token link: ${response.statusText}`);
-    }
-
     logger.info('[IntentTokenLink] Successfully deactivated link');
   } catch (error) {
     logger.error('[IntentTokenLink] Failed to deactivate:', error);
@@ -279,23 +218,13 @@ export async function deactivateIntentTokenLink(linkId: string): Promise<void> {
  * @param linkId The ID of the link to activate
  */
 export async function activateIntentTokenLink(linkId: string): Promise<void> {
-  const config = getConfig();
-  const apiUrl = config?.apiUrl || 'https://api.getpassage.ai';
-
   try {
     logger.info('[IntentTokenLink] Activating intent token link:', linkId);
 
-    const response = await fetch(`${apiUrl}/intent-token-links/${linkId}/activate`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      }
+    await getApiClient().post(`/intent-token-links/${linkId}/activate`, {
+      errorMessage: 'Failed to activate intent token link'
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to activate intent token link: ${response.statusText}`);
-    }
-
     logger.info('[IntentTokenLink] Successfully activated link');
   } catch (error) {
     logger.error('[IntentTokenLink] Failed to activate:', error);
@@ -308,23 +237,13 @@ export async function activateIntentTokenLink(linkId: string): Promise<void> {
  * @param linkId The ID of the link to delete
  */
 export async function deleteIntentTokenLink(linkId: string): Promise<void> {
-  const config = getConfig();
-  const apiUrl = config?.apiUrl || 'https://api.getpassage.ai';
-
   try {
     logger.info('[IntentTokenLink] Deleting intent token link:', linkId);
 
-    const response = await fetch(`${apiUrl}/intent-token-links/${linkId}`, {
-      method: 'DELETE',
-      headers: {
-        'Content-Type': 'application/json'
-      }
+    await getApiClient().delete(`/intent-token-links/${linkId}`, {
+      errorMessage: 'Failed to delete intent token link'
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to delete intent token link: ${response.statusText}`);
-    }
-
     logger.info('[IntentTokenLink] Successfully deleted link');
   } catch (error) {
     logger.error('[IntentTokenLink] Failed to delete:', error);
@@ -338,25 +257,13 @@ export async function deleteIntentTokenLink(linkId: string): Promise<void> {
  * @returns Connection data
  */
 export async function getIntentTokenLinkConnections(shortCode: string): Promise<any> {
-  const config = getConfig();
-  const apiUrl = config?.apiUrl || 'https://api.getpassage.ai';
-
   try {
     logger.info('[IntentTokenLink] Fetching connections for shortcode:', shortCode);
 
-    const response = await fetch(`${apiUrl}/intent-token-links/${shortCode}/connections`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json'
-      }
+    const data = await getApiClient().get(`/intent-token-links/${shortCode}/connections`, {
+      errorMessage: 'Failed to fetch connections'
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch connections: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-
     logger.info('[IntentTokenLink] Successfully fetched connections');
 
     return data;
@@ -376,11 +283,12 @@ function enhanceIntentTokenLink(link: IntentTokenLink): IntentTokenLink {
   const operationNames = Object.values(link.requestPayload.resources).flatMap(
     (resource) => Object.keys(resource)
   );
+  const uiUrl = getConfig()?.uiUrl || DEFAULT_UI_BASE_URL;
 
   return {
     ...link,
     url: `https://clip.trypassage.ai/?shortCode=${link.shortCode}`,
-    openUrl: `https://ui.getpassage.ai/connect?shortToken=${link.shortCode}&userAgent=passage-web-react&modal=true`,
+    openUrl: `${uiUrl}/connect?shortToken=${link.shortCode}&userAgent=passage-web-react&modal=true`,
     resultUrl: `https://demo.getpassage.ai`,
     resourceNames: resourceNames.join(', '),
     operationNames: operationNames.join(', ')
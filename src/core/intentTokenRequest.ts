@@ -0,0 +1,27 @@
+/**
+ * Request body for POST /intent-token
+ * Shared by the browser client and the server entry so both send the same payload
+ */
+
+import type { GenerateAppClipOptions } from "../types";
+
+/**
+ * Pick the fields the intent token endpoint accepts, dropping callbacks and UI options
+ */
+export function buildIntentTokenRequest(
+  options: GenerateAppClipOptions
+): GenerateAppClipOptions {
+  return {
+    integrationId: options.integrationId,
+    resources: options.resources,
+    returnUrl: options.returnUrl,
+    userId: options.userId,
+    prompts: options.prompts,
+    sessionArgs: options.sessionArgs,
+    record: options.record,
+    debug: options.debug,
+    clearAllCookies: options.clearAllCookies,
+    interactive: options.interactive,
+    adCampaign: options.adCampaign,
+  };
+}
@@ -1,59 +1,61 @@
 /**
  * Core Passage functions for web React SDK
  * These are the main entry points for using Passage
+ * They delegate to the default client, use createPassageClient() for isolated instances
  */
 
-import { logger } from '../logger';
 import {
   PassageConfig,
   PassageOpenOptions,
   GenerateAppClipOptions,
   GenerateAppClipResponse,
   OpenAppClipOptions,
-  BrandingConfig,
+  PassageStoredDataResult,
+  PassageDataOptions,
+  PassageDataResult,
 } from '../types';
-import { DEFAULT_API_BASE_URL, INTENT_TOKEN_PATH } from '../config';
-
-// Global configuration state
-let globalConfig: PassageConfig | null = null;
+import { PassageApiClient } from './apiClient';
+import { getDefaultClient } from './client';
+import type { PassageSession } from './session';
 
 /**
  * Configure the Passage SDK with global settings
  */
 export function configure(config: PassageConfig): void {
-  globalConfig = { ...config };
-
-  logger.setDebugMode(config.debug ?? false);
-  logger.debug('[Passage] Configured with:', {
-    uiUrl: config.uiUrl,
-    apiUrl: config.apiUrl,
-    socketUrl: config.socketUrl,
-    debug: config.debug,
-    hasPublishableKey: !!config.publishableKey
-  });
+  getDefaultClient().configure(config);
 }
 
 /**
  * Open the Passage connection flow
- * This opens the modal/embed with the provided intent token
+ * This opens the modal/embed with the provided intent token and returns the session handle
+ * Without a mounted PassageProvider the flow is rendered straight into the DOM
  */
-export function open(options: PassageOpenOptions): void {
-  logger.info('[Passage] Opening with token');
+export function open(options: PassageOpenOptions): PassageSession {
+  return getDefaultClient().open(options);
+}
 
-  if (typeof window !== 'undefined') {
-    window.dispatchEvent(new CustomEvent('passage:open', { detail: options }));
-  }
+/**
+ * Resume the session left open before a page reload, resolves null when there is none
+ * PassageProvider does this on mount, call it when using Passage without React
+ */
+export function resumeSession(
+  onResume?: (session: PassageSession) => void
+): Promise<PassageSession | null> {
+  return getDefaultClient().resumeSession(onResume);
 }
 
 /**
- * Close the current Passage flow
+ * Close the Passage flow of a connection, or every open flow when no connectionId is given
  */
-export function close(): void {
-  logger.info('[Passage] Closing');
+export function close(connectionId?: string): void {
+  getDefaultClient().close(connectionId);
+}
 
-  if (typeof window !== 'undefined') {
-    window.dispatchEvent(new CustomEvent('passage:close'));
-  }
+/**
+ * Get every open session, in the order they were opened
+ */
+export function getSessions(): PassageSession[] {
+  return getDefaultClient().getSessions();
 }
 
 /**
@@ -61,179 +63,57 @@ export function close(): void {
  * This method calls POST /intent-token endpoint
  */
 export async function generateAppClip(options: GenerateAppClipOptions): Promise<GenerateAppClipResponse> {
-  if (!globalConfig) {
-    throw new Error('Passage must be configured before calling generateAppClip. Call configure() first.');
-  }
-
-  if (!globalConfig.publishableKey) {
-    throw new Error('publishableKey is required in PassageConfig to generate app clip tokens.');
-  }
-
-  const apiUrl = globalConfig.apiUrl || DEFAULT_API_BASE_URL;
-  const endpoint = `${apiUrl}${INTENT_TOKEN_PATH}`;
-
-  logger.debug('[Passage] Generating app clip intent token', {
-    endpoint,
-    apiUrl,
-    integrationId: options.integrationId,
-    hasResources: !!options.resources,
-    hasReturnUrl: !!options.returnUrl
-  });
-
-  try {
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Publishable ${globalConfig.publishableKey}`
-      },
-      body: JSON.stringify({
-        integrationId: options.integrationId,
-        resources: options.resources,
-        returnUrl: options.returnUrl,
-        userId: options.userId,
-        prompts: options.prompts,
-        sessionArgs: options.sessionArgs,
-        record: options.record,
-        debug: options.debug,
-        clearAllCookies: options.clearAllCookies,
-        interactive: options.interactive,
-        adCampaign: options.adCampaign
-      })
-    });
-
-    if (!response.ok) {
-      let errorMessage = `Failed to generate app clip: ${response.status} ${response.statusText}`;
-
-      try {
-        const errorData = await response.json();
-        if (errorData.message) {
-          errorMessage = errorData.message;
-        }
-        if (errorData.errorCode === 'VALIDATION_001' && errorData.details) {
-          const validationErrors = Object.values(errorData.details)
-            .map((detail: any) => {
-              const resourceName = detail.property || 'Unknown';
-              const constraints = detail.constraints?.custom || detail.constraints?.message || 'Validation failed';
-              return `${resourceName}: ${constraints}`;
-            })
-            .join('; ');
-          errorMessage = `Validation failed: ${validationErrors}`;
-        }
-      } catch (parseError) {
-        logger.warn('[Passage] Could not parse error response:', parseError);
-      }
-
-      throw new Error(errorMessage);
-    }
-
-    const data: GenerateAppClipResponse = await response.json();
-
-    logger.debug('[Passage] App clip intent token generated successfully', {
-      connectionId: data.connectionId,
-      shortToken: data.shortToken,
-      hasUrl: !!data.url
-    });
-
-    return data;
-  } catch (error) {
-    logger.error('[Passage] Failed to generate app clip:', error);
-    throw error;
-  }
+  return getDefaultClient().generateAppClip(options);
 }
 
 /**
  * Open app clip modal by first generating the intent token and fetching branding
  * This is a convenience method that combines generateAppClip + fetching branding + opening the app clip modal
  */
-export async function openAppClip(options: OpenAppClipOptions): Promise<void> {
-  logger.info('[Passage] ==== Opening app clip - START ====');
-  logger.debug('[Passage] openAppClip called with options:', {
-    integrationId: options.integrationId,
-    hasResources: !!options.resources,
-    hasCallbacks: !!(options.onConnectionComplete || options.onConnectionError)
-  });
-
-  try {
-    // 1. Generate the intent token
-    logger.debug('[Passage] STEP 1: Generating intent token...');
-    const appClipData = await generateAppClip(options);
-    logger.info('[Passage] ✓ Intent token generated:', {
-      connectionId: appClipData.connectionId,
-      shortToken: appClipData.shortToken,
-      hasUrl: !!appClipData.url,
-      hasBrandingInResponse: !!appClipData.branding
-    });
-
-    // 2. Extract branding configuration from response
-    let branding: BrandingConfig | null = null;
-
-    logger.debug('[Passage] STEP 2: Extracting branding configuration...');
-
-    // Extract branding from the app clip response
-    if (appClipData.branding) {
-      logger.info('[Passage] ✓ Branding found in intent token response');
-      branding = appClipData.branding;
-      logger.debug('[Passage] Branding details from response:', {
-        integrationName: branding.integrationName,
-        colorPrimary: branding.colorPrimary,
-        colorBackground: branding.colorBackground,
-        colorCardBackground: branding.colorCardBackground,
-        colorText: branding.colorText,
-        colorTextSecondary: branding.colorTextSecondary,
-        logoUrl: branding.logoUrl
-      });
-    } else {
-      logger.warn('[Passage] ⚠️  No branding found in intent token response');
-    }
-
-    // 3. Dispatch event to open the app clip modal with all data
-    logger.debug('[Passage] STEP 3: Dispatching passage:openAppClip event...');
-    if (typeof window !== 'undefined') {
-      const eventDetail = {
-        appClipData,
-        branding,
-        callbacks: {
-          onConnectionComplete: options.onConnectionComplete,
-          onConnectionError: options.onConnectionError,
-          onDataComplete: options.onDataComplete,
-          onExit: options.onExit
-        }
-      };
-
-      logger.debug('[Passage] Event detail:', {
-        hasAppClipData: !!eventDetail.appClipData,
-        hasBranding: !!eventDetail.branding,
-        brandingIntegrationName: eventDetail.branding?.integrationName,
-        hasCallbacks: !!(eventDetail.callbacks.onConnectionComplete || eventDetail.callbacks.onConnectionError)
-      });
-
-      window.dispatchEvent(new CustomEvent('passage:openAppClip', {
-        detail: eventDetail
-      }));
-
-      logger.info('[Passage] ✓ Event dispatched successfully');
-    } else {
-      logger.error('[Passage] ✗ Window object not available');
-    }
-
-    logger.info('[Passage] ==== App clip modal opened - END ====');
-  } catch (error) {
-    logger.error('[Passage] ✗✗✗ Failed to open app clip ✗✗✗', error);
-    throw error;
-  }
+export async function openAppClip(options: OpenAppClipOptions): Promise<PassageSession> {
+  return getDefaultClient().openAppClip(options);
 }
 
 /**
  * Get current configuration
  */
 export function getConfig(): PassageConfig | null {
-  return globalConfig ? { ...globalConfig } : null;
+  return getDefaultClient().getConfig();
 }
 
 /**
  * Get the publishable key from the current configuration
  */
 export function getPublishableKey(): string | undefined {
-  return globalConfig?.publishableKey;
+  return getDefaultClient().getPublishableKey();
+}
+
+/**
+ * Get the API client built from the current configuration
+ * Falls back to the default API URL when configure() has not been called
+ */
+export function getApiClient(): PassageApiClient {
+  return getDefaultClient().getApiClient();
+}
+
+/**
+ * Get persisted connection results, oldest first
+ * Results are only stored when `storeResults` is enabled in configure()
+ */
+export function getStoredResults(): Promise<PassageStoredDataResult[]> {
+  return getDefaultClient().getStoredResults();
+}
+
+/**
+ * Remove every persisted connection result
+ */
+export function clearStoredResults(): Promise<void> {
+  return getDefaultClient().clearStoredResults();
+}
+
+/**
+ * Get the data of a finished connection from stored results or, with `fetchFromApi`, from the API
+ */
+export function getData(options: PassageDataOptions): Promise<PassageDataResult | null> {
+  return getDefaultClient().getData(options);
 }
@@ -0,0 +1,53 @@
+/**
+ * Session lifecycle events published on each client's event bus
+ * Every session of a client publishes here, usePassageEvents() subscribes
+ */
+
+import { getDefaultClient, PassageClient } from "./client";
+import type {
+  PassageSocketReconnectedEvent,
+  PassageSocketReconnectingEvent,
+} from "../socket-events";
+import type {
+  ConnectionStatus,
+  GenerateAppClipResponse,
+  PassageDataResult,
+  PassageErrorData,
+  PassagePromptResponse,
+  PassageSuccessData,
+} from "../types";
+
+// Prefix of the window events usePassageEvents() also listens to, e.g. "passage:exit"
+export const PASSAGE_EVENT_PREFIX = "passage:";
+
+/**
+ * Payload of each event on a client's event bus, and of each `passage:<name>` window event
+ */
+export interface PassageEventMap {
+  connectionComplete: PassageSuccessData;
+  connectionError: PassageErrorData;
+  dataComplete: PassageDataResult;
+  promptComplete: PassagePromptResponse;
+  exit: { reason?: string };
+  webviewChange: { webviewType: string };
+  statusChange: { connectionId?: string; status: ConnectionStatus };
+  reconnecting: PassageSocketReconnectingEvent & { connectionId?: string };
+  reconnected: PassageSocketReconnectedEvent & { connectionId?: string };
+  appClipOpen: { connectionId?: string; appClipData: GenerateAppClipResponse };
+  appClipClose: { connectionId?: string };
+}
+
+export type PassageEventName = keyof PassageEventMap;
+
+/**
+ * Dispatch a Passage event programmatically on a client's event bus, the default client when omitted
+ * Useful for testing or triggering events from other parts of the app
+ */
+export function dispatchPassageEvent<E extends PassageEventName>(
+  eventType: E,
+  data: PassageEventMap[E],
+  client: PassageClient = getDefaultClient()
+): void {
+  client.events.emit(eventType, data);
+  client.logger.debug(`[dispatchPassageEvent] Dispatched ${eventType}:`, data);
+}
@@ -0,0 +1,321 @@
+/**
+ * Persisted history of connection results
+ * Records each completed session behind a pluggable storage adapter with max-entries/TTL eviction
+ */
+
+import { logger } from "../logger";
+import {
+  PASSAGE_DATA_RESULTS_KEY,
+  DEFAULT_RESULT_STORE_MAX_ENTRIES,
+  RESULT_STORE_DB_NAME,
+  RESULT_STORE_DB_STORE,
+} from "../config";
+import type {
+  PassageResultStorageAdapter,
+  PassageResultStorageType,
+  PassageResultStoreOptions,
+  PassageStoredDataResult,
+} from "../types";
+
+type ResultsListener = (results: PassageStoredDataResult[]) => void;
+
+/**
+ * In-memory storage, used directly or as a fallback when browser storage is unavailable
+ */
+export function createMemoryStorage(): PassageResultStorageAdapter {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+function getWebStorage(
+  type: "localStorage" | "sessionStorage"
+): Storage | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+
+  try {
+    const storage = window[type];
+    // Safari private mode exposes storage but throws on write
+    const probeKey = "__passage_storage_probe__";
+    storage.setItem(probeKey, probeKey);
+    storage.removeItem(probeKey);
+    return storage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * IndexedDB storage keeping each key as a record of a single object store
+ */
+export function createIndexedDBStorage(
+  dbName: string = RESULT_STORE_DB_NAME,
+  storeName: string = RESULT_STORE_DB_STORE
+): PassageResultStorageAdapter {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return dbPromise;
+  };
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(
+        db.transaction(storeName, mode).objectStore(storeName)
+      );
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    getItem: async (key) =>
+      (await run<string | undefined>("readonly", (store) => store.get(key))) ??
+      null,
+    setItem: async (key, value) => {
+      await run("readwrite", (store) => store.put(value, key));
+    },
+    removeItem: async (key) => {
+      await run("readwrite", (store) => store.delete(key));
+    },
+  };
+}
+
+/**
+ * Resolve a storage option to an adapter, falling back to memory when unavailable
+ */
+export function createResultStorage(
+  storage:
+    | PassageResultStorageType
+    | PassageResultStorageAdapter = "localStorage"
+): PassageResultStorageAdapter {
+  if (typeof storage === "object") {
+    return storage;
+  }
+
+  switch (storage) {
+    case "localStorage":
+    case "sessionStorage": {
+      const webStorage = getWebStorage(storage);
+      if (webStorage) {
+        return webStorage;
+      }
+      break;
+    }
+    case "indexedDB":
+      if (typeof indexedDB !== "undefined") {
+        return createIndexedDBStorage();
+      }
+      break;
+    case "memory":
+      return createMemoryStorage();
+  }
+
+  logger.warn(
+    `[PassageResultStore] ${storage} is not available, storing results in memory`
+  );
+  return createMemoryStorage();
+}
+
+function getEntryId(entry: PassageStoredDataResult): string | undefined {
+  return entry.connectionId || entry.intentToken;
+}
+
+export class PassageResultStore {
+  private adapter: PassageResultStorageAdapter | null = null;
+  private key: string = PASSAGE_DATA_RESULTS_KEY;
+  private maxEntries: number = DEFAULT_RESULT_STORE_MAX_ENTRIES;
+  private ttl: number = 0;
+  private listeners: Set<ResultsListener> = new Set();
+  // Serializes read-modify-write cycles so concurrent records are not lost
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options?: PassageResultStoreOptions | boolean) {
+    this.configure(options);
+  }
+
+  /**
+   * Enable, disable or reconfigure the store
+   * Listeners are kept across reconfiguration and receive the results of the new storage
+   */
+  configure(options?: PassageResultStoreOptions | boolean): void {
+    if (!options) {
+      this.adapter = null;
+      this.notify([]);
+      return;
+    }
+
+    const resolved = options === true ? {} : options;
+    this.adapter = createResultStorage(resolved.storage);
+    this.key = resolved.key || PASSAGE_DATA_RESULTS_KEY;
+    this.maxEntries = resolved.maxEntries ?? DEFAULT_RESULT_STORE_MAX_ENTRIES;
+    this.ttl = resolved.ttl ?? 0;
+
+    // Subscribers that read before configuration saw an empty store
+    this.enqueue(() => this.read()).then((results) => this.notify(results));
+  }
+
+  get isEnabled(): boolean {
+    return this.adapter !== null;
+  }
+
+  /**
+   * Record a result, merging it into the entry of the same connection when one exists
+   */
+  record(result: PassageStoredDataResult): Promise<void> {
+    if (!this.adapter) {
+      return Promise.resolve();
+    }
+
+    return this.enqueue(async () => {
+      const entry: PassageStoredDataResult = {
+        ...result,
+        timestamp: result.timestamp || new Date().toISOString(),
+      };
+      const id = getEntryId(entry);
+      const entries = await this.read();
+      const index = id
+        ? entries.findIndex((existing) => getEntryId(existing) === id)
+        : -1;
+
+      if (index >= 0) {
+        const [existing] = entries.splice(index, 1);
+        entries.push({ ...existing, ...stripUndefined(entry) });
+      } else {
+        entries.push(entry);
+      }
+
+      await this.write(entries);
+    });
+  }
+
+  /**
+   * Get stored results, oldest first, with expired entries removed
+   */
+  getAll(): Promise<PassageStoredDataResult[]> {
+    if (!this.adapter) {
+      return Promise.resolve([]);
+    }
+
+    return this.enqueue(() => this.read());
+  }
+
+  clear(): Promise<void> {
+    const adapter = this.adapter;
+    if (!adapter) {
+      return Promise.resolve();
+    }
+
+    return this.enqueue(async () => {
+      await adapter.removeItem(this.key);
+      this.notify([]);
+    });
+  }
+
+  /**
+   * Subscribe to changes of the stored results, returns an unsubscribe function
+   */
+  subscribe(listener: ResultsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(task);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async read(): Promise<PassageStoredDataResult[]> {
+    if (!this.adapter) {
+      return [];
+    }
+
+    let entries: PassageStoredDataResult[] = [];
+    try {
+      const raw = await this.adapter.getItem(this.key);
+      const parsed = raw ? JSON.parse(raw) : [];
+      entries = Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      logger.warn("[PassageResultStore] Failed to read stored results:", error);
+      return [];
+    }
+
+    return this.evict(entries);
+  }
+
+  private async write(entries: PassageStoredDataResult[]): Promise<void> {
+    if (!this.adapter) {
+      return;
+    }
+
+    const kept = this.evict(entries);
+    try {
+      await this.adapter.setItem(this.key, JSON.stringify(kept));
+    } catch (error) {
+      logger.error("[PassageResultStore] Failed to store results:", error);
+      throw error;
+    }
+    this.notify(kept);
+  }
+
+  private evict(entries: PassageStoredDataResult[]): PassageStoredDataResult[] {
+    const now = Date.now();
+    const fresh =
+      this.ttl > 0
+        ? entries.filter((entry) => {
+            const storedAt = entry.timestamp
+              ? Date.parse(entry.timestamp)
+              : NaN;
+            return !Number.isNaN(storedAt) && now - storedAt <= this.ttl;
+          })
+        : entries;
+
+    return this.maxEntries > 0 ? fresh.slice(-this.maxEntries) : fresh;
+  }
+
+  private notify(results: PassageStoredDataResult[]): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(results);
+      } catch (error) {
+        logger.error("[PassageResultStore] Error in results listener:", error);
+      }
+    });
+  }
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  const result: Partial<T> = {};
+  (Object.keys(value) as Array<keyof T>).forEach((key) => {
+    if (value[key] !== undefined) {
+      result[key] = value[key];
+    }
+  });
+  return result;
+}
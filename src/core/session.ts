@@ -0,0 +1,554 @@
+/**
+ * Session handle returned by open() and openAppClip()
+ * Exposes live status, lifecycle events and a result promise for a single connection
+ */
+
+import { logger } from "../logger";
+import { DEFAULT_TOKEN_EXPIRY_WARNING } from "../config";
+import {
+  decodeIntentToken,
+  getIntentTokenExpiry,
+} from "../utils/intentTokenPayload";
+import {
+  PassageSessionState,
+  PassageSessionStateChange,
+  PassageSessionStateMachine,
+} from "./sessionState";
+import type {
+  PassageCommandAck,
+  PassageCommandOptions,
+  PassageCommandType,
+  PassageSocketPromptEvent,
+  PassageSocketReconnectedEvent,
+  PassageSocketReconnectingEvent,
+} from "../socket-events";
+import type {
+  ConnectionStatus,
+  PassageDataResult,
+  PassageErrorData,
+  PassagePromptProgress,
+  PassagePromptResult,
+  PassageSuccessData,
+  PassageTokenExpiringEvent,
+} from "../types";
+
+export interface PassageSessionEventMap {
+  /** The lifecycle moved to another state, see PassageSessionState */
+  stateChange: PassageSessionStateChange;
+  statusChange: ConnectionStatus;
+  connectionComplete: PassageSuccessData;
+  connectionError: PassageErrorData;
+  dataComplete: PassageDataResult;
+  /** A prompt completed or failed */
+  promptComplete: PassagePromptResult;
+  /** Any prompt was added or changed status */
+  promptProgress: PassagePromptProgress;
+  exit: { reason?: string };
+  close: { reason?: string };
+  tokenExpiring: PassageTokenExpiringEvent;
+  /** The socket lost its connection and is retrying */
+  reconnecting: PassageSocketReconnectingEvent;
+  /** The socket is back, missed transitions are replayed after this */
+  reconnected: PassageSocketReconnectedEvent;
+}
+
+export type PassageSessionEvent = keyof PassageSessionEventMap;
+
+/**
+ * Any session event with its payload, as received by onEvent
+ */
+export type PassageSessionEventRecord = {
+  [E in PassageSessionEvent]: { type: E; payload: PassageSessionEventMap[E] };
+}[PassageSessionEvent];
+
+export interface PassageSessionCallbacks {
+  onConnectionComplete?: (data: PassageSuccessData) => void;
+  onConnectionError?: (error: PassageErrorData) => void;
+  onDataComplete?: (data: PassageDataResult) => void;
+  onPromptComplete?: (prompt: PassagePromptResult) => void;
+  onExit?: (reason?: string) => void;
+  onTokenExpiring?: (event: PassageTokenExpiringEvent) => void;
+  onEvent?: (event: PassageSessionEventRecord) => void;
+}
+
+export interface PassageSessionOptions {
+  intentToken?: string;
+  connectionId?: string;
+  callbacks?: PassageSessionCallbacks;
+  signal?: AbortSignal;
+
+  /**
+   * How long before the intent token expires tokenExpiring fires, in milliseconds
+   * @default DEFAULT_TOKEN_EXPIRY_WARNING
+   */
+  tokenExpiryWarning?: number;
+}
+
+/**
+ * Hooks the UI owning a session registers so the handle can close it
+ * @internal
+ */
+export interface PassageSessionController {
+  close: () => void;
+  sendCommand: (
+    type: PassageCommandType,
+    args: Record<string, any> | undefined,
+    options: PassageCommandOptions
+  ) => Promise<PassageCommandAck>;
+}
+
+/**
+ * A status the session went through and when, as a timestamp in milliseconds
+ */
+export interface PassageStatusHistoryEntry {
+  status: ConnectionStatus;
+  timestamp: number;
+}
+
+/** Error code used when a session ends without completing */
+export const SESSION_EXITED_CODE = "SESSION_EXITED";
+
+type Listener<E extends PassageSessionEvent> = (
+  payload: PassageSessionEventMap[E]
+) => void;
+
+export class PassageSession {
+  readonly result: Promise<PassageSuccessData>;
+  private _intentToken?: string;
+  private _connectionId?: string;
+  private _status: ConnectionStatus | null = null;
+  private _statusHistory: PassageStatusHistoryEntry[] = [];
+  private _lastError: PassageErrorData | null = null;
+  // Prompt results by name, in the order they were first seen
+  private prompts: Map<string, PassagePromptResult> = new Map();
+  private settled = false;
+  private machine = new PassageSessionStateMachine();
+  private closed = false;
+  private callbacks: PassageSessionCallbacks;
+  private controller: PassageSessionController | null = null;
+  private tokenExpiryWarning: number;
+  private tokenExpiryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners: Map<PassageSessionEvent, Set<(payload: any) => void>> =
+    new Map();
+  private resolveResult!: (data: PassageSuccessData) => void;
+  private rejectResult!: (error: PassageErrorData) => void;
+
+  constructor(options: PassageSessionOptions = {}) {
+    this._intentToken = options.intentToken;
+    this._connectionId =
+      options.connectionId ?? extractConnectionId(options.intentToken);
+    this.callbacks = options.callbacks ?? {};
+    this.tokenExpiryWarning =
+      options.tokenExpiryWarning ?? DEFAULT_TOKEN_EXPIRY_WARNING;
+
+    this.result = new Promise<PassageSuccessData>((resolve, reject) => {
+      this.resolveResult = resolve;
+      this.rejectResult = reject;
+    });
+    // Avoid unhandled rejection warnings when callers only use callbacks
+    this.result.catch(() => undefined);
+
+    if (options.signal) {
+      if (options.signal.aborted) {
+        this.cancel("aborted");
+      } else {
+        options.signal.addEventListener("abort", () => this.cancel("aborted"), {
+          once: true,
+        });
+      }
+    }
+  }
+
+  get intentToken(): string | undefined {
+    return this._intentToken;
+  }
+
+  get connectionId(): string | undefined {
+    return this._connectionId;
+  }
+
+  get status(): ConnectionStatus | null {
+    return this._status;
+  }
+
+  /**
+   * Lifecycle state, completed, failed and exited are terminal
+   */
+  get state(): PassageSessionState {
+    return this.machine.state;
+  }
+
+  /**
+   * Every status the session went through, oldest first
+   */
+  get statusHistory(): PassageStatusHistoryEntry[] {
+    return [...this._statusHistory];
+  }
+
+  /**
+   * The error the session last reported, null when none occurred
+   */
+  get lastError(): PassageErrorData | null {
+    return this._lastError;
+  }
+
+  /**
+   * Prompt results received so far, grouped by status
+   */
+  get promptProgress(): PassagePromptProgress {
+    const prompts = [...this.prompts.values()];
+    return {
+      prompts,
+      pending: prompts.filter((prompt) => prompt.status === "pending"),
+      completed: prompts.filter((prompt) => prompt.status === "completed"),
+      failed: prompts.filter((prompt) => prompt.status === "failed"),
+    };
+  }
+
+  /**
+   * Whether the result promise has resolved or rejected
+   */
+  get isSettled(): boolean {
+    return this.settled;
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Subscribe to a session event, returns an unsubscribe function
+   */
+  on<E extends PassageSessionEvent>(
+    event: E,
+    listener: Listener<E>
+  ): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Close the UI for this session
+   * Fires onExit with "manual_close" when the connection had not started yet,
+   * the result rejects when the session has not completed or failed
+   */
+  close(): void {
+    if (this.controller) {
+      this.controller.close();
+    } else {
+      this.markClosed("manual_close");
+    }
+  }
+
+  /**
+   * Send a command to the running session over its socket, e.g. "cancel" or "ping"
+   * Resolves with the acknowledgement, rejects on failure, timeout or when the session is not connected
+   */
+  sendCommand(
+    type: PassageCommandType,
+    args?: Record<string, any>,
+    options: PassageCommandOptions = {}
+  ): Promise<PassageCommandAck> {
+    if (!this.controller || this.closed) {
+      return Promise.reject(
+        new Error(`Cannot send command '${type}', the session is not running`)
+      );
+    }
+    return this.controller.sendCommand(type, args, options);
+  }
+
+  /**
+   * Abort the session and close its UI
+   */
+  cancel(reason: string = "cancelled"): void {
+    if (this.closed) {
+      return;
+    }
+    this.exit(reason);
+    this.close();
+  }
+
+  /**
+   * Attach the UI owning the session and start watching the token expiry
+   * @internal
+   */
+  attach(controller: PassageSessionController): void {
+    this.controller = controller;
+    this.scheduleTokenExpiry();
+  }
+
+  /**
+   * Set the intent token resolved by a token provider after the session was created
+   * @internal
+   */
+  setIntentToken(intentToken: string): void {
+    this._intentToken = intentToken;
+    const connectionId = extractConnectionId(intentToken);
+    if (connectionId) {
+      this.setConnectionId(connectionId);
+    }
+    if (this.controller) {
+      this.scheduleTokenExpiry();
+    }
+  }
+
+  /** @internal */
+  setConnectionId(connectionId: string): void {
+    if (!this._connectionId) {
+      this._connectionId = connectionId;
+    }
+  }
+
+  /**
+   * Apply a connection status, returns false when the state machine rejects it
+   * rejected and error are recorded, the session fails through fail()
+   * @internal
+   */
+  updateStatus(status: ConnectionStatus): boolean {
+    if (this._status === status) {
+      return true;
+    }
+    // Only reported in success payloads, connections never move to it
+    if (status === "done") {
+      return false;
+    }
+    if (status === "rejected" || status === "error") {
+      if (this.machine.isTerminal) {
+        return false;
+      }
+    } else if (!this.transition(status)) {
+      return false;
+    }
+
+    this._status = status;
+    this._statusHistory.push({ status, timestamp: Date.now() });
+    this.emit("statusChange", status);
+    return true;
+  }
+
+  /**
+   * Record a prompt result from a prompt event or a connection update
+   * promptComplete fires once per prompt and final status
+   * @internal
+   */
+  updatePrompt(prompt: PassageSocketPromptEvent): void {
+    const previous = this.prompts.get(prompt.name);
+    if (
+      previous &&
+      previous.status === prompt.status &&
+      previous.content === toPromptContent(prompt.result)
+    ) {
+      return;
+    }
+
+    const result = toPromptResult(prompt);
+    this.prompts.set(prompt.name, result);
+
+    if (result.status !== "pending" && previous?.status !== result.status) {
+      this.callbacks.onPromptComplete?.(result);
+      this.emit("promptComplete", result);
+    }
+    this.emit("promptProgress", this.promptProgress);
+  }
+
+  /** @internal */
+  notifyReconnecting(event: PassageSocketReconnectingEvent): void {
+    this.emit("reconnecting", event);
+  }
+
+  /** @internal */
+  notifyReconnected(event: PassageSocketReconnectedEvent): void {
+    this.emit("reconnected", event);
+  }
+
+  /** @internal */
+  notifyDataComplete(data: PassageDataResult): void {
+    this.callbacks.onDataComplete?.(data);
+    this.emit("dataComplete", data);
+  }
+
+  /**
+   * Terminal callbacks only fire on the first terminal transition
+   * @internal
+   */
+  complete(data: PassageSuccessData): void {
+    if (!this.transition("completed")) {
+      return;
+    }
+    if (data.connectionId) {
+      this.setConnectionId(data.connectionId);
+    }
+    this.callbacks.onConnectionComplete?.(data);
+    this.emit("connectionComplete", data);
+    this.settle(() => this.resolveResult(data));
+  }
+
+  /** @internal */
+  fail(error: PassageErrorData): void {
+    // Any running state may fail, so only a terminal state rejects the transition
+    if (this.machine.isTerminal) {
+      return;
+    }
+    this._lastError = error;
+    this.transition("failed");
+    this.callbacks.onConnectionError?.(error);
+    this.emit("connectionError", error);
+    this.settle(() => this.rejectResult(error));
+  }
+
+  /**
+   * Fire onExit and reject the result with a SESSION_EXITED error
+   * @internal
+   */
+  exit(reason?: string): void {
+    if (!this.transition("exited")) {
+      return;
+    }
+    this.callbacks.onExit?.(reason);
+    this.emit("exit", { reason });
+    this.settle(() => this.rejectResult(createExitError(reason)));
+  }
+
+  /**
+   * Close the session, exiting it first when it has not reached a terminal state
+   * With `exit` false the session still ends in the exited state, but onExit does not fire
+   * @internal
+   */
+  markClosed(reason?: string, exit: boolean = true): void {
+    if (this.closed) {
+      return;
+    }
+    if (!this.machine.isTerminal) {
+      if (exit) {
+        this.exit(reason);
+      } else if (this.transition("exited")) {
+        this.settle(() => this.rejectResult(createExitError(reason)));
+      }
+    }
+    this.closed = true;
+    this.controller = null;
+    this.clearTokenExpiry();
+    this.emit("close", { reason });
+  }
+
+  private scheduleTokenExpiry(): void {
+    this.clearTokenExpiry();
+
+    const intentToken = this._intentToken;
+    const expiresAt = intentToken ? getIntentTokenExpiry(intentToken) : null;
+    if (!intentToken || expiresAt === null || this.closed) {
+      return;
+    }
+
+    const notify = () => {
+      this.tokenExpiryTimer = null;
+      const event: PassageTokenExpiringEvent = {
+        intentToken,
+        expiresAt,
+        expiresIn: Math.max(0, expiresAt - Date.now()),
+      };
+      this.callbacks.onTokenExpiring?.(event);
+      this.emit("tokenExpiring", event);
+    };
+
+    this.tokenExpiryTimer = setTimeout(
+      notify,
+      Math.max(0, expiresAt - this.tokenExpiryWarning - Date.now())
+    );
+  }
+
+  private clearTokenExpiry(): void {
+    if (this.tokenExpiryTimer) {
+      clearTimeout(this.tokenExpiryTimer);
+      this.tokenExpiryTimer = null;
+    }
+  }
+
+  private transition(to: PassageSessionState): boolean {
+    const change = this.machine.transition(to);
+    if (change) {
+      this.emit("stateChange", change);
+    }
+    return !!change;
+  }
+
+  private settle(action: () => void): void {
+    if (this.settled) {
+      return;
+    }
+    this.settled = true;
+    action();
+  }
+
+  private emit<E extends PassageSessionEvent>(
+    event: E,
+    payload: PassageSessionEventMap[E]
+  ): void {
+    this.listeners.get(event)?.forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (error) {
+        logger.error(`[PassageSession] Error in '${event}' listener:`, error);
+      }
+    });
+
+    try {
+      this.callbacks.onEvent?.({
+        type: event,
+        payload,
+      } as PassageSessionEventRecord);
+    } catch (error) {
+      logger.error("[PassageSession] Error in onEvent callback:", error);
+    }
+  }
+}
+
+function toPromptContent(result: unknown): string {
+  if (result === undefined || result === null) {
+    return "";
+  }
+  return typeof result === "string" ? result : JSON.stringify(result);
+}
+
+// Prompts answer as text, JSON outputs are parsed for the response
+function toPromptResult(prompt: PassageSocketPromptEvent): PassagePromptResult {
+  const content = toPromptContent(prompt.result);
+  let response: any = prompt.result;
+  if (typeof prompt.result === "string") {
+    try {
+      response = JSON.parse(prompt.result);
+    } catch {
+      response = prompt.result;
+    }
+  }
+
+  return {
+    name: prompt.name,
+    promptId: prompt.promptId,
+    status: prompt.status,
+    content,
+    response,
+  };
+}
+
+function createExitError(reason?: string): PassageErrorData {
+  return {
+    error: `Session exited${reason ? `: ${reason}` : ""}`,
+    code: SESSION_EXITED_CODE,
+    details: { reason },
+  };
+}
+
+function extractConnectionId(intentToken?: string): string | undefined {
+  if (!intentToken) {
+    return undefined;
+  }
+  return decodeIntentToken(intentToken)?.sessionId || undefined;
+}
@@ -0,0 +1,33 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createPassageClient } from "./client";
+import { logger } from "../logger";
+
+describe("PassageSessionManager", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("releases sessions whose open fails", async () => {
+    vi.spyOn(logger, "error").mockImplementation(() => undefined);
+    const client = createPassageClient({
+      mode: "simulate",
+      simulation: { delay: 60000 },
+    });
+    const onExit = vi.fn();
+
+    const session = client.open({
+      presentationStyle: "embed",
+      container: "#missing",
+      onExit,
+    });
+
+    await expect(session.result).rejects.toMatchObject({
+      code: "OPEN_ERROR",
+    });
+    expect(session.state).toBe("failed");
+    expect(session.isClosed).toBe(true);
+    expect(onExit).not.toHaveBeenCalled();
+    expect(client.getSessions()).toEqual([]);
+  });
+});
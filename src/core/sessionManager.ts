@@ -0,0 +1,1175 @@
+/**
+ * React-free driver of a client's connect flow
+ * Owns the client's sessions, each with its own socket subscription and the view state that the
+ * PassageProvider renders, falling back to the DOM renderer when no Provider is mounted
+ * Sessions opened with a providerId only render in the Provider mounted with that id
+ */
+
+import { ANALYTICS_EVENTS } from "../analytics";
+import {
+  DEFAULT_SOCKET_URL,
+  DEFAULT_SOCKET_NAMESPACE,
+  TOKEN_EXPIRY_LEEWAY,
+} from "../config";
+import { isIntentTokenExpired } from "../utils/intentTokenPayload";
+import { DomRenderer } from "../dom/renderer";
+import { SimulatedTransport } from "../simulated-transport";
+import type { WebSocketManager } from "../websocket-manager";
+import type {
+  PassageSocketDoneEvent,
+  PassageSocketReconnectedEvent,
+} from "../socket-events";
+import type {
+  BrandingConfig,
+  ConnectionStatus,
+  ConnectionUpdate,
+  GenerateAppClipResponse,
+  PassageDataResult,
+  PassageErrorData,
+  PassageOpenOptions,
+  PassageSuccessData,
+} from "../types";
+import type { PassageClient } from "./client";
+import type { PassageSession } from "./session";
+import type { PassageSessionStateChange } from "./sessionState";
+import {
+  PersistedPassageSession,
+  saveActiveSession,
+  loadActiveSession,
+  clearActiveSession,
+} from "./sessionPersistence";
+
+export interface PassageViewState {
+  /** Connection the view belongs to, null before a session is opened */
+  connectionId: string | null;
+  /** Provider the session was opened in, null for the first mounted Provider */
+  providerId: string | null;
+  /** Whether the connect flow is open */
+  isOpen: boolean;
+  intentToken: string | null;
+  status: ConnectionStatus | null;
+  /** Whether the socket lost its connection and is retrying */
+  isReconnecting: boolean;
+  presentationStyle: "modal" | "embed";
+  /** Element the embed presentation renders into */
+  container: HTMLElement | null;
+  isAppClipOpen: boolean;
+  appClipData: GenerateAppClipResponse | null;
+  /** Element the App Clip view renders into, the overlay is used when null */
+  appClipContainer: HTMLElement | null;
+  branding: BrandingConfig | null;
+  /** Return URL from intent token generation */
+  returnUrl: string | null;
+}
+
+type ViewStateListener = (state: PassageViewState) => void;
+
+const INITIAL_VIEW_STATE: PassageViewState = {
+  connectionId: null,
+  providerId: null,
+  isOpen: false,
+  intentToken: null,
+  status: null,
+  isReconnecting: false,
+  presentationStyle: "modal",
+  container: null,
+  isAppClipOpen: false,
+  appClipData: null,
+  appClipContainer: null,
+  branding: null,
+  returnUrl: null,
+};
+
+// A session driven by the manager, with its own socket, subscription and UI
+interface SessionEntry {
+  connectionId: string;
+  session: PassageSession;
+  state: PassageViewState;
+  socket: WebSocketManager;
+  unsubscribeSocket: (() => void) | null;
+  domRenderer: DomRenderer | null;
+}
+
+let pendingSessionCounter = 0;
+
+// Build the data result reported for a data_available connection update
+function toDataResult(
+  connection: ConnectionUpdate,
+  intentToken: string
+): PassageDataResult {
+  return {
+    data: connection.data,
+    prompts: (connection.promptResults || []).map((promptResult) => ({
+      name: promptResult.name,
+      content: promptResult.result,
+      response: promptResult.result,
+    })),
+    intentToken: intentToken,
+  };
+}
+
+// Resolve an embed container given as an element or a selector
+function resolveContainer(
+  container: string | HTMLElement | null
+): HTMLElement | null {
+  if (typeof container === "string") {
+    return document.querySelector(container) as HTMLElement | null;
+  }
+  return container;
+}
+
+export class PassageSessionManager {
+  // Sessions keyed by connectionId, in the order they were opened
+  private entries: Map<string, SessionEntry> = new Map();
+  private listeners: Set<ViewStateListener> = new Set();
+  // Ids of the registered views in mount order, null for views mounted without one
+  private views: (string | null)[] = [];
+  // Resume in flight, StrictMode mounts the Provider twice and both mounts try to resume
+  private resuming: Promise<PassageSession | null> | null = null;
+
+  constructor(private client: PassageClient) {}
+
+  /**
+   * View state of the most recently opened session, the initial state when there is none
+   */
+  getState(): PassageViewState {
+    return this.getLatestEntry()?.state ?? INITIAL_VIEW_STATE;
+  }
+
+  /**
+   * View states of every session, in the order they were opened
+   */
+  getStates(): PassageViewState[] {
+    return [...this.entries.values()].map((entry) => entry.state);
+  }
+
+  /**
+   * Every session that has not been closed, in the order they were opened
+   */
+  getSessions(): PassageSession[] {
+    return [...this.entries.values()]
+      .map((entry) => entry.session)
+      .filter((session) => !session.isClosed);
+  }
+
+  /**
+   * The session of a connection, null when it is not open
+   */
+  getSession(connectionId: string): PassageSession | null {
+    const session = this.entries.get(connectionId)?.session;
+    return session && !session.isClosed ? session : null;
+  }
+
+  /**
+   * View state of a connection, null when it has no session
+   */
+  getView(connectionId: string): PassageViewState | null {
+    return this.entries.get(connectionId)?.state ?? null;
+  }
+
+  /**
+   * The most recently opened session, null when nothing is open
+   */
+  getActiveSession(): PassageSession | null {
+    const sessions = this.getSessions();
+    return sessions[sessions.length - 1] ?? null;
+  }
+
+  /**
+   * Latest update received by the socket of a connection
+   */
+  getCurrentConnection(connectionId: string): ConnectionUpdate | null {
+    return (
+      this.entries.get(connectionId)?.socket.getCurrentConnection() ?? null
+    );
+  }
+
+  /**
+   * Subscribe to view state changes, returns an unsubscribe function
+   * The listener receives the state that changed, use getStates() for all of them
+   */
+  subscribe(listener: ViewStateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * View states a registered view renders, in the order they were opened
+   * A view renders the sessions opened with its id, the first mounted view also renders
+   * the sessions opened without one
+   */
+  getStatesFor(viewId?: string): PassageViewState[] {
+    return this.getStates().filter((state) =>
+      this.isRenderedBy(state, viewId ?? null)
+    );
+  }
+
+  /**
+   * Whether a view with this id is registered
+   */
+  hasView(viewId: string): boolean {
+    return this.views.includes(viewId);
+  }
+
+  /**
+   * Register a UI rendering the view state, e.g. a mounted PassageProvider
+   * The built-in DOM renderer only runs while no view is registered
+   */
+  registerView(viewId?: string): () => void {
+    const id = viewId ?? null;
+    if (id !== null && this.views.includes(id)) {
+      this.client.logger.warn(
+        `[PassageSessionManager] A view with id '${id}' is already registered`
+      );
+    }
+
+    this.views.push(id);
+    this.entries.forEach((entry) => {
+      entry.domRenderer?.destroy();
+      entry.domRenderer = null;
+    });
+
+    let registered = true;
+    return () => {
+      if (registered) {
+        registered = false;
+        this.views.splice(this.views.indexOf(id), 1);
+      }
+    };
+  }
+
+  /**
+   * Start a session handed over by the client's open()
+   */
+  async startSession(
+    options: PassageOpenOptions,
+    session: PassageSession
+  ): Promise<void> {
+    const { logger, analytics } = this.client;
+    const token = options.token;
+
+    if (!token) {
+      const error = "Token is required to open Passage";
+      logger.error("[PassageSessionManager]", error);
+      session.fail({ error });
+      return;
+    }
+
+    const providerId = options.providerId ?? null;
+    if (!this.checkView(providerId, session)) {
+      return;
+    }
+
+    logger.debug("[PassageSessionManager] Opening Passage with token");
+
+    // Track the session so socket events and close() reach its callbacks
+    const entry = this.addSession(session, providerId);
+
+    try {
+      this.attach(entry, () => this.closeEntry(entry));
+
+      // Track open request
+      analytics.track(ANALYTICS_EVENTS.SDK_OPEN_REQUEST, {
+        presentationStyle: options.presentationStyle || "modal",
+      });
+
+      // Handle embed mode
+      let container: HTMLElement | null = null;
+      if (options.presentationStyle === "embed" && options.container) {
+        container = resolveContainer(options.container);
+
+        if (!container) {
+          throw new Error("Container element not found");
+        }
+      }
+
+      this.setState(entry, { intentToken: token, container });
+
+      await this.connectSocket(entry, token);
+
+      if (session.isClosed) {
+        logger.debug(
+          "[PassageSessionManager] Session closed while connecting, not opening"
+        );
+        return;
+      }
+
+      this.setState(entry, {
+        presentationStyle: options.presentationStyle || "modal",
+      });
+      // The socket may already have reported a later status while connecting
+      if (session.state === "idle") {
+        this.applyStatus(entry, "pending");
+      }
+      this.setState(entry, { isOpen: true });
+
+      logger.debug("[PassageSessionManager] Passage opened successfully");
+
+      // Track modal opened
+      analytics.track(ANALYTICS_EVENTS.SDK_MODAL_OPENED, {
+        presentationStyle: options.presentationStyle || "modal",
+      });
+
+      this.persistSession(session, {
+        kind: "connect",
+        intentToken: token,
+        connectionId: session.connectionId,
+        presentationStyle: options.presentationStyle || "modal",
+        container:
+          typeof options.container === "string" ? options.container : undefined,
+      });
+    } catch (error) {
+      logger.error("[PassageSessionManager] Failed to open Passage:", error);
+
+      analytics.track(ANALYTICS_EVENTS.SDK_OPEN_ERROR, {
+        error:
+          error instanceof Error ? error.message : "Failed to open Passage",
+      });
+
+      session.fail({
+        error:
+          error instanceof Error ? error.message : "Failed to open Passage",
+        code: "OPEN_ERROR",
+      });
+      // Release the entry and its socket, a failed open is never shown
+      session.markClosed("open_failed");
+    }
+  }
+
+  /**
+   * Show the App Clip QR code for a session handed over by the client's openAppClip()
+   */
+  openAppClip(
+    appClipData: GenerateAppClipResponse,
+    branding: BrandingConfig | null,
+    session: PassageSession,
+    container: string | HTMLElement | null = null,
+    providerId: string | null = null
+  ): void {
+    const { logger } = this.client;
+
+    if (!this.checkView(providerId, session)) {
+      return;
+    }
+
+    // Track the session so socket events and close() reach its callbacks
+    const entry = this.addSession(session, providerId);
+    this.attach(entry, () => this.closeAppClipEntry(entry));
+
+    const token = appClipData.intentToken;
+    logger.debug(
+      "[PassageSessionManager] Opening app clip, stored returnUrl:",
+      appClipData.returnUrl
+    );
+
+    this.setState(entry, {
+      intentToken: token,
+      returnUrl: appClipData.returnUrl || null,
+    });
+
+    this.connectSocket(entry, token).catch((error) => {
+      logger.error(
+        "[PassageSessionManager] Failed to connect to websocket:",
+        error
+      );
+    });
+
+    this.setState(entry, {
+      appClipData,
+      branding,
+      appClipContainer: resolveContainer(container),
+      isAppClipOpen: true,
+    });
+    logger.info("[PassageSessionManager] ✓ App clip opened");
+
+    this.persistSession(session, {
+      kind: "appClip",
+      intentToken: token,
+      connectionId: appClipData.connectionId,
+      returnUrl: appClipData.returnUrl,
+      appClipData,
+      branding,
+      presentationStyle: container ? "embed" : "modal",
+      container: typeof container === "string" ? container : undefined,
+    });
+  }
+
+  /**
+   * Resume the session saved before a page reload, resolves null when there is none
+   * `onResume` receives the restored session before it reconnects
+   * Calls made while a resume is in flight resolve with the same session
+   */
+  resumeActiveSession(
+    onResume?: (session: PassageSession) => void
+  ): Promise<PassageSession | null> {
+    if (!this.resuming) {
+      this.resuming = this.resumeSaved(onResume).finally(() => {
+        this.resuming = null;
+      });
+    }
+    return this.resuming;
+  }
+
+  /**
+   * Close the connect flow or App Clip overlay of a connection, or of every session without one
+   * Fires onExit when the connection had not started yet
+   */
+  close(connectionId?: string): void {
+    this.selectEntries(connectionId).forEach((entry) => this.closeEntry(entry));
+  }
+
+  /**
+   * Close the App Clip overlay of a connection, or every open App Clip overlay without one
+   */
+  closeAppClip(connectionId?: string): void {
+    this.selectEntries(connectionId)
+      .filter((entry) => !!connectionId || entry.state.isAppClipOpen)
+      .forEach((entry) => this.closeAppClipEntry(entry));
+  }
+
+  private selectEntries(connectionId?: string): SessionEntry[] {
+    if (connectionId === undefined) {
+      return [...this.entries.values()];
+    }
+    const entry = this.entries.get(connectionId);
+    return entry ? [entry] : [];
+  }
+
+  private closeEntry(entry: SessionEntry): void {
+    const { logger, analytics } = this.client;
+
+    // Already released, e.g. replaced by a newer session for the same connection
+    if (this.entries.get(entry.connectionId) !== entry) {
+      entry.session.markClosed("manual_close");
+      return;
+    }
+
+    if (entry.state.isAppClipOpen) {
+      this.closeAppClipEntry(entry);
+      return;
+    }
+
+    logger.debug(
+      "[PassageSessionManager] Closing Passage:",
+      entry.connectionId
+    );
+
+    const { session } = entry;
+    const currentStatus = session.status ?? entry.state.status;
+
+    analytics.track(ANALYTICS_EVENTS.SDK_MODAL_CLOSED, {
+      status: currentStatus || "unknown",
+      presentationStyle: entry.state.presentationStyle,
+    });
+
+    this.setState(entry, {
+      isOpen: false,
+      status: null,
+      isReconnecting: false,
+      presentationStyle: "modal",
+      container: null,
+      returnUrl: null,
+    });
+    // Closing only counts as an exit before the connection started
+    session.markClosed(
+      "manual_close",
+      !currentStatus ||
+        currentStatus === "pending" ||
+        currentStatus === "connecting"
+    );
+
+    logger.debug("[PassageSessionManager] Modal closed");
+  }
+
+  private closeAppClipEntry(entry: SessionEntry): void {
+    this.client.logger.debug(
+      "[PassageSessionManager] Closing app clip:",
+      entry.connectionId
+    );
+
+    this.setState(entry, {
+      isAppClipOpen: false,
+      appClipData: null,
+      appClipContainer: null,
+      branding: null,
+      returnUrl: null,
+      isReconnecting: false,
+    });
+    entry.session.markClosed("manual_close");
+  }
+
+  // Resume a persisted session
+  // Restores the UI when the connection is still running, otherwise reports its outcome
+  private async resumeSaved(
+    onResume?: (session: PassageSession) => void
+  ): Promise<PassageSession | null> {
+    if (!this.resumeEnabled) {
+      return null;
+    }
+
+    const persisted = loadActiveSession(this.client.id);
+    if (!persisted) {
+      return null;
+    }
+
+    const session = this.client.restoreSession(persisted);
+    onResume?.(session);
+    await this.resumeSession(persisted, session);
+    return session;
+  }
+
+  private async resumeSession(
+    persisted: PersistedPassageSession,
+    session: PassageSession
+  ): Promise<void> {
+    const { logger } = this.client;
+    const token = persisted.intentToken;
+
+    logger.info("[PassageSessionManager] Resuming session after reload:", {
+      kind: persisted.kind,
+      connectionId: persisted.connectionId,
+      savedAt: persisted.savedAt,
+    });
+
+    const entry = this.addSession(session);
+
+    if (isIntentTokenExpired(token, TOKEN_EXPIRY_LEEWAY)) {
+      logger.info(
+        "[PassageSessionManager] Persisted intent token has expired, not resuming"
+      );
+      this.forgetSession(session);
+      session.fail({
+        error: "Intent token has expired",
+        code: "TOKEN_EXPIRED",
+      });
+      session.markClosed("token_expired");
+      return;
+    }
+
+    try {
+      await this.connectSocket(entry, token);
+
+      // The socket sends the current connection on join, fall back to the API otherwise
+      let connection = entry.socket.getCurrentConnection();
+      const connectionId = connection?.id || session.connectionId;
+      if (!connection && connectionId) {
+        connection = await this.client.getConnection(connectionId, token);
+      }
+
+      if (session.isClosed) {
+        logger.debug(
+          "[PassageSessionManager] Resumed session closed while reconnecting"
+        );
+        return;
+      }
+
+      if (connection) {
+        session.setConnectionId(connection.id);
+        session.updateStatus(connection.status);
+      }
+
+      // Finished while the page was away, report the outcome without reopening
+      if (connection?.status === "data_available") {
+        logger.info(
+          "[PassageSessionManager] Resumed session already has data, completing"
+        );
+        session.notifyDataComplete(toDataResult(connection, token));
+        session.complete({
+          connectionId: connection.id,
+          status: connection.status,
+          metadata: {
+            completedAt: new Date().toISOString(),
+            resumed: true,
+          },
+          data: connection.data || [],
+          intentToken: token,
+          returnUrl: persisted.returnUrl,
+        });
+        this.endResumedSession(session, "completed");
+        return;
+      }
+
+      if (connection?.status === "error" || connection?.status === "rejected") {
+        logger.info(
+          "[PassageSessionManager] Resumed session ended with",
+          connection.status
+        );
+        session.fail({
+          error:
+            connection.status === "rejected"
+              ? "Connection rejected"
+              : "Connection failed",
+          code:
+            connection.status === "rejected"
+              ? "CONNECTION_REJECTED"
+              : "CONNECTION_ERROR",
+        });
+        this.endResumedSession(session, connection.status);
+        return;
+      }
+
+      // Still running, restore the UI
+      this.setState(entry, {
+        intentToken: token,
+        returnUrl: persisted.returnUrl || null,
+      });
+
+      if (persisted.kind === "appClip" && persisted.appClipData) {
+        this.attach(entry, () => this.closeAppClipEntry(entry));
+        this.setState(entry, {
+          appClipData: persisted.appClipData,
+          branding: persisted.branding ?? null,
+          appClipContainer:
+            persisted.presentationStyle === "embed"
+              ? resolveContainer(persisted.container ?? null)
+              : null,
+          isAppClipOpen: true,
+        });
+      } else {
+        this.attach(entry, () => this.closeEntry(entry));
+
+        const container =
+          persisted.presentationStyle === "embed"
+            ? resolveContainer(persisted.container ?? null)
+            : null;
+        this.setState(entry, {
+          container,
+          presentationStyle: container ? "embed" : "modal",
+        });
+        this.applyStatus(entry, connection?.status || "pending");
+        this.setState(entry, { isOpen: true });
+      }
+
+      // Clear the record once the resumed session settles
+      this.persistSession(session, { ...persisted });
+
+      logger.info("[PassageSessionManager] Session resumed");
+    } catch (error) {
+      logger.error("[PassageSessionManager] Failed to resume session:", error);
+      this.forgetSession(session);
+      session.fail({
+        error:
+          error instanceof Error ? error.message : "Failed to resume session",
+        code: "RESUME_ERROR",
+      });
+      session.markClosed("resume_failed");
+    }
+  }
+
+  private endResumedSession(session: PassageSession, reason: string): void {
+    this.forgetSession(session);
+    session.markClosed(reason);
+  }
+
+  // Track a session under its connectionId
+  // A session already open for the same connection is replaced, any other keeps running
+  private addSession(
+    session: PassageSession,
+    providerId: string | null = null
+  ): SessionEntry {
+    const connectionId =
+      session.connectionId ?? `pending-session-${++pendingSessionCounter}`;
+
+    const previous = this.entries.get(connectionId);
+    if (previous && previous.session !== session) {
+      previous.session.markClosed("replaced");
+    }
+
+    const entry: SessionEntry = {
+      connectionId,
+      session,
+      state: { ...INITIAL_VIEW_STATE, connectionId, providerId },
+      socket: this.acquireSocket(),
+      unsubscribeSocket: null,
+      domRenderer: null,
+    };
+    this.entries.set(connectionId, entry);
+
+    // The session owns its socket until it closes
+    const unsubscribers = [
+      session.on("stateChange", (change) =>
+        this.trackStateChange(entry, change)
+      ),
+      ...this.publishEvents(session),
+    ];
+    const unsubscribeClose = session.on("close", () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      unsubscribeClose();
+      this.releaseEntry(entry);
+    });
+
+    return entry;
+  }
+
+  // Publish the session lifecycle on the client's event bus for usePassageEvents()
+  private publishEvents(session: PassageSession): (() => void)[] {
+    const { events } = this.client;
+    return [
+      session.on("statusChange", (status) =>
+        events.emit("statusChange", {
+          connectionId: session.connectionId,
+          status,
+        })
+      ),
+      session.on("connectionComplete", (data) =>
+        events.emit("connectionComplete", data)
+      ),
+      session.on("connectionError", (error) =>
+        events.emit("connectionError", error)
+      ),
+      session.on("dataComplete", (data) => events.emit("dataComplete", data)),
+      session.on("promptComplete", (prompt) =>
+        events.emit("promptComplete", prompt)
+      ),
+      session.on("exit", (event) => events.emit("exit", event)),
+      session.on("reconnecting", (event) =>
+        events.emit("reconnecting", {
+          ...event,
+          connectionId: session.connectionId,
+        })
+      ),
+      session.on("reconnected", (event) =>
+        events.emit("reconnected", {
+          ...event,
+          connectionId: session.connectionId,
+        })
+      ),
+    ];
+  }
+
+  // appClipOpen and appClipClose follow the isAppClipOpen view state
+  private publishAppClip(entry: SessionEntry, open: boolean): void {
+    const { events } = this.client;
+    const connectionId = entry.session.connectionId;
+    if (!open) {
+      events.emit("appClipClose", { connectionId });
+    } else if (entry.state.appClipData) {
+      events.emit("appClipOpen", {
+        connectionId,
+        appClipData: entry.state.appClipData,
+      });
+    }
+  }
+
+  // Hand the session the controls of its UI and socket
+  private attach(entry: SessionEntry, close: () => void): void {
+    entry.session.attach({
+      close,
+      sendCommand: (type, args, options) =>
+        entry.socket.sendCommand(type, args, options),
+    });
+  }
+
+  // The client's socket manager serves the first session, concurrent sessions get their own
+  private acquireSocket(): WebSocketManager {
+    const primary = this.client.getSocketManager();
+    const inUse = [...this.entries.values()].some(
+      (entry) => entry.socket === primary
+    );
+    return inUse ? this.client.createSocketManager() : primary;
+  }
+
+  // Drop a closed session with its socket and UI
+  private releaseEntry(entry: SessionEntry): void {
+    if (this.entries.get(entry.connectionId) !== entry) {
+      return;
+    }
+
+    this.entries.delete(entry.connectionId);
+    this.stopListening(entry);
+    entry.socket.disconnect();
+    entry.domRenderer?.destroy();
+    entry.domRenderer = null;
+    this.notify({ ...entry.state, isOpen: false, isAppClipOpen: false });
+
+    // Replaced sessions are released with their App Clip view still open
+    if (entry.state.isAppClipOpen) {
+      this.publishAppClip(entry, false);
+    }
+  }
+
+  // Fail a session opened for a Provider that is not mounted, instead of opening it unseen
+  // Without a target the DOM renderer takes over unless the config requires a Provider
+  private checkView(
+    providerId: string | null,
+    session: PassageSession
+  ): boolean {
+    const { logger } = this.client;
+    let error: string | null = null;
+
+    if (providerId !== null && !this.views.includes(providerId)) {
+      error = `No PassageProvider with id '${providerId}' is mounted`;
+    } else if (
+      this.views.length === 0 &&
+      this.client.getConfig()?.requireProvider
+    ) {
+      error = "No PassageProvider is mounted";
+    }
+
+    if (error) {
+      const errorData: PassageErrorData = { error, code: "PROVIDER_NOT_FOUND" };
+      logger.error("[PassageSessionManager]", error);
+      // The session is not tracked yet, so its error is published here
+      this.client.events.emit("connectionError", errorData);
+      session.fail(errorData);
+      return false;
+    }
+    return true;
+  }
+
+  private isRenderedBy(
+    state: PassageViewState,
+    viewId: string | null
+  ): boolean {
+    return state.providerId !== null
+      ? state.providerId === viewId
+      : this.views[0] === viewId;
+  }
+
+  private getLatestEntry(): SessionEntry | null {
+    const entries = [...this.entries.values()];
+    return entries[entries.length - 1] ?? null;
+  }
+
+  // Update the rendered status once the session's state machine accepts it
+  private applyStatus(entry: SessionEntry, status: ConnectionStatus): void {
+    if (entry.session.updateStatus(status)) {
+      this.setState(entry, { status });
+    }
+  }
+
+  // Terminal states are reached once per session, so each outcome is tracked once
+  private trackStateChange(
+    entry: SessionEntry,
+    change: PassageSessionStateChange
+  ): void {
+    const { analytics } = this.client;
+    const { session } = entry;
+
+    switch (change.to) {
+      case "completed":
+        analytics.track(ANALYTICS_EVENTS.SDK_ON_SUCCESS, {
+          status: session.status,
+          success: true,
+        });
+        break;
+      case "failed":
+        analytics.track(ANALYTICS_EVENTS.SDK_ON_ERROR, {
+          status: session.status,
+          success: false,
+          error: session.lastError?.error,
+          code: session.lastError?.code,
+        });
+        break;
+      case "exited":
+        analytics.track(ANALYTICS_EVENTS.SDK_ON_EXIT, {
+          status: session.status,
+          from: change.from,
+        });
+        break;
+    }
+  }
+
+  private setState(
+    entry: SessionEntry,
+    partial: Partial<PassageViewState>
+  ): void {
+    const wasAppClipOpen = entry.state.isAppClipOpen;
+    entry.state = { ...entry.state, ...partial };
+    this.render(entry);
+    this.notify(entry.state);
+
+    if (entry.state.isAppClipOpen !== wasAppClipOpen) {
+      this.publishAppClip(entry, entry.state.isAppClipOpen);
+    }
+  }
+
+  private notify(state: PassageViewState): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(state);
+      } catch (error) {
+        this.client.logger.error(
+          "[PassageSessionManager] Error in view state listener:",
+          error
+        );
+      }
+    });
+  }
+
+  // Render with the DOM renderer while no Provider is mounted for this client
+  private render(entry: SessionEntry): void {
+    if (this.views.length > 0 || typeof document === "undefined") {
+      return;
+    }
+
+    const { state } = entry;
+    if (!entry.domRenderer) {
+      if (!state.isOpen && !state.isAppClipOpen) {
+        return;
+      }
+
+      this.client.logger.debug(
+        "[PassageSessionManager] No Provider mounted, rendering with the DOM renderer"
+      );
+      entry.domRenderer = new DomRenderer({
+        getUiUrl: () => this.client.getConfig()?.uiUrl,
+        getCustomStyles: () => this.client.getConfig()?.customStyles,
+        isSimulated: () => this.client.isSimulated(),
+        onClose: () => this.closeEntry(entry),
+        onCloseAppClip: () => this.closeAppClipEntry(entry),
+      });
+    }
+
+    entry.domRenderer.render(state);
+  }
+
+  // Connect the socket of a session for a token and route its messages to the session
+  private connectSocket(entry: SessionEntry, token: string): Promise<void> {
+    const config = this.client.getConfig();
+
+    const connectionId = entry.session.connectionId;
+    const simulated = this.client.isSimulated();
+    // Simulated sessions play locally, there is nothing to poll
+    const pollingFallback = !simulated && (config?.pollingFallback ?? true);
+
+    // Listeners outlive the socket, subscribe first so no event of the new connection is missed
+    this.listen(entry, token);
+    return entry.socket.connect(
+      token,
+      config?.socketUrl || DEFAULT_SOCKET_URL,
+      config?.socketNamespace || DEFAULT_SOCKET_NAMESPACE,
+      {
+        reconnection: config?.reconnection,
+        sessionId: connectionId,
+        transport: simulated
+          ? () => new SimulatedTransport(config?.simulation)
+          : config?.transport,
+        fallback:
+          pollingFallback && connectionId
+            ? {
+                fetchConnection: () =>
+                  this.client.getConnection(connectionId, token),
+                interval:
+                  typeof pollingFallback === "object"
+                    ? pollingFallback.interval
+                    : undefined,
+              }
+            : undefined,
+      }
+    );
+  }
+
+  private listen(entry: SessionEntry, intentToken: string): void {
+    this.stopListening(entry);
+
+    this.client.logger.debug(
+      "[PassageSessionManager] Setting up WebSocket listeners for token:",
+      intentToken
+    );
+
+    const { session, socket } = entry;
+    // Scoped to the session, events of another session's socket never reach these handlers
+    const scope = { sessionId: session.connectionId };
+    const unsubscribers = [
+      socket.addListener(
+        "connection",
+        (connection) => this.handleConnection(entry, connection, intentToken),
+        scope
+      ),
+      socket.addListener(
+        "status",
+        ({ status }) => this.applyStatus(entry, status),
+        scope
+      ),
+      socket.addListener(
+        "promptComplete",
+        (prompt) => session.updatePrompt(prompt),
+        scope
+      ),
+      socket.addListener(
+        "done",
+        (done) => this.handleDone(entry, done, intentToken),
+        scope
+      ),
+      socket.addListener(
+        "error",
+        (error) =>
+          session.fail({
+            error: error.message,
+            code: "WEBSOCKET_ERROR",
+            data: error.data,
+          }),
+        scope
+      ),
+      socket.addListener(
+        "reconnecting",
+        (event) => {
+          this.setState(entry, { isReconnecting: true });
+          session.notifyReconnecting(event);
+        },
+        scope
+      ),
+      socket.addListener(
+        "reconnected",
+        (event) => this.handleReconnected(entry, event, intentToken),
+        scope
+      ),
+      socket.addListener(
+        "reconnectFailed",
+        ({ attempts }) => {
+          this.setState(entry, { isReconnecting: false });
+          session.fail({
+            error: `Lost the connection to Passage after ${attempts} reconnection attempts`,
+            code: "RECONNECT_FAILED",
+          });
+        },
+        scope
+      ),
+    ];
+
+    entry.unsubscribeSocket = () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+    };
+  }
+
+  private stopListening(entry: SessionEntry): void {
+    if (entry.unsubscribeSocket) {
+      entry.unsubscribeSocket();
+      entry.unsubscribeSocket = null;
+    }
+  }
+
+  private handleConnection(
+    entry: SessionEntry,
+    connection: ConnectionUpdate,
+    intentToken: string
+  ): void {
+    const { session } = entry;
+
+    this.client.logger.debug(
+      "[PassageSessionManager] Connection update received:",
+      connection
+    );
+    this.applyStatus(entry, connection.status);
+    // Connection updates carry every prompt, including the pending ones
+    connection.promptResults?.forEach((prompt) => session.updatePrompt(prompt));
+
+    if (connection.status === "data_available") {
+      session.notifyDataComplete(toDataResult(connection, intentToken));
+    } else if (
+      connection.status === "error" ||
+      connection.status === "rejected"
+    ) {
+      session.fail({
+        error:
+          connection.status === "rejected"
+            ? "Connection rejected"
+            : "Connection failed",
+        code:
+          connection.status === "rejected"
+            ? "CONNECTION_REJECTED"
+            : "CONNECTION_ERROR",
+      });
+    }
+  }
+
+  // Request the latest connection state so transitions missed while offline reach the session
+  private async handleReconnected(
+    entry: SessionEntry,
+    event: PassageSocketReconnectedEvent,
+    intentToken: string
+  ): Promise<void> {
+    const { logger } = this.client;
+    const { session, socket } = entry;
+
+    this.setState(entry, { isReconnecting: false });
+    session.notifyReconnected(event);
+
+    const connectionId =
+      socket.getCurrentConnection()?.id || session.connectionId;
+    if (!connectionId) {
+      return;
+    }
+
+    try {
+      const connection = await this.client.getConnection(
+        connectionId,
+        intentToken
+      );
+      if (socket.getIntentToken() === intentToken) {
+        socket.replayConnection(connection);
+      }
+    } catch (error) {
+      logger.warn(
+        "[PassageSessionManager] Failed to fetch the connection state after reconnecting:",
+        error
+      );
+    }
+  }
+
+  // Handle command{type:'done'} and the legacy done event, normalized by the socket protocol
+  private handleDone(
+    entry: SessionEntry,
+    done: PassageSocketDoneEvent,
+    intentToken: string
+  ): void {
+    const { session } = entry;
+
+    if (done.success) {
+      const successData: PassageSuccessData = {
+        connectionId: done.connectionId || "",
+        status: "done",
+        metadata: {
+          completedAt: new Date().toISOString(),
+        },
+        data: done.data || [],
+        intentToken: intentToken,
+        returnUrl: entry.state.returnUrl || undefined,
+      };
+
+      session.complete(successData);
+      return;
+    }
+
+    const errorMessage = done.error || "Operation completed with failure";
+
+    const errorData: PassageErrorData = {
+      error: errorMessage,
+      code: done.source === "command" ? "COMMAND_DONE_FAILURE" : "DONE_FAILURE",
+      data: done.data,
+    };
+
+    session.fail(errorData);
+  }
+
+  private get resumeEnabled(): boolean {
+    return this.client.getConfig()?.resumeSessions !== false;
+  }
+
+  // Keep a session in sessionStorage until it settles so a reload can resume it
+  // With concurrent sessions the most recently opened one is resumed
+  private persistSession(
+    session: PassageSession,
+    persisted: Omit<PersistedPassageSession, "savedAt">
+  ): void {
+    if (!this.resumeEnabled) {
+      return;
+    }
+
+    saveActiveSession(this.client.id, persisted);
+
+    const forget = () => this.forgetSession(session);
+    session.result.then(forget, forget);
+  }
+
+  // Only clear the saved record when it still belongs to this session
+  private forgetSession(session: PassageSession): void {
+    const clientId = this.client.id;
+    if (loadActiveSession(clientId)?.intentToken === session.intentToken) {
+      clearActiveSession(clientId);
+    }
+  }
+}
@@ -0,0 +1,153 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  clearActiveSession,
+  loadActiveSession,
+  saveActiveSession,
+} from "./sessionPersistence";
+import { createPassageClient, PassageClient } from "./client";
+import { createSimulatedIntentToken } from "./simulation";
+import { PASSAGE_ACTIVE_SESSION_KEY } from "../config";
+
+// Keep simulated sessions running for the whole test
+const SIMULATION = { mode: "simulate" as const, simulation: { delay: 60000 } };
+
+function createClient(): PassageClient {
+  const client = createPassageClient(SIMULATION);
+  client.getSessionManager().registerView();
+  return client;
+}
+
+function createExpiredIntentToken(): string {
+  const encode = (value: object) =>
+    btoa(JSON.stringify(value))
+      .replace(/=+$/, "")
+      .replace(/\+/g, "-")
+      .replace(/\//g, "_");
+  return `${encode({ alg: "none" })}.${encode({
+    sessionId: "expired-connection",
+    exp: Math.floor(Date.now() / 1000) - 60,
+  })}.`;
+}
+
+describe("session persistence", () => {
+  afterEach(() => {
+    window.sessionStorage.clear();
+  });
+
+  it("saves, loads and clears the active session of a client", () => {
+    saveActiveSession("client-a", {
+      kind: "connect",
+      intentToken: "token-a",
+      connectionId: "connection-a",
+    });
+
+    expect(loadActiveSession("client-a")).toMatchObject({
+      kind: "connect",
+      intentToken: "token-a",
+      connectionId: "connection-a",
+    });
+    expect(loadActiveSession("client-a")?.savedAt).toEqual(expect.any(String));
+    expect(loadActiveSession("client-b")).toBeNull();
+
+    clearActiveSession("client-a");
+    expect(loadActiveSession("client-a")).toBeNull();
+  });
+
+  it("ignores records that cannot be read back", () => {
+    window.sessionStorage.setItem(
+      `${PASSAGE_ACTIVE_SESSION_KEY}:client-a`,
+      "{not json"
+    );
+    window.sessionStorage.setItem(
+      `${PASSAGE_ACTIVE_SESSION_KEY}:client-b`,
+      JSON.stringify({ kind: "connect" })
+    );
+
+    expect(loadActiveSession("client-a")).toBeNull();
+    expect(loadActiveSession("client-b")).toBeNull();
+  });
+
+  it("keeps an open session until it is closed", async () => {
+    const client = createClient();
+    const intentToken = createSimulatedIntentToken();
+
+    const session = client.open({ token: intentToken });
+
+    await vi.waitFor(() =>
+      expect(loadActiveSession(client.id)?.intentToken).toBe(intentToken)
+    );
+
+    session.close();
+    await session.result.catch(() => undefined);
+    expect(loadActiveSession(client.id)).toBeNull();
+  });
+});
+
+describe("resumeSession", () => {
+  afterEach(() => {
+    window.sessionStorage.clear();
+  });
+
+  it("resolves null when nothing was saved", async () => {
+    await expect(createClient().resumeSession()).resolves.toBeNull();
+  });
+
+  it("restores the saved session once when resumed concurrently", async () => {
+    const client = createClient();
+    const intentToken = createSimulatedIntentToken("connection-resumed");
+    saveActiveSession(client.id, {
+      kind: "connect",
+      intentToken,
+      connectionId: "connection-resumed",
+    });
+    const onResume = vi.fn();
+
+    // StrictMode mounts the Provider twice, both mounts resume
+    const [first, second] = await Promise.all([
+      client.resumeSession(onResume),
+      client.resumeSession(onResume),
+    ]);
+
+    expect(first).not.toBeNull();
+    expect(second).toBe(first);
+    expect(onResume).toHaveBeenCalledTimes(1);
+    expect(first?.connectionId).toBe("connection-resumed");
+    expect(first?.isClosed).toBe(false);
+    expect(client.getSessions()).toEqual([first]);
+
+    client.close();
+  });
+
+  it("fails and forgets a session whose token expired", async () => {
+    const client = createClient();
+    saveActiveSession(client.id, {
+      kind: "connect",
+      intentToken: createExpiredIntentToken(),
+    });
+
+    const session = await client.resumeSession();
+
+    await expect(session?.result).rejects.toMatchObject({
+      code: "TOKEN_EXPIRED",
+    });
+    expect(loadActiveSession(client.id)).toBeNull();
+  });
+
+  it("keeps the record of a newer session when a resumed one ends", async () => {
+    const client = createClient();
+    saveActiveSession(client.id, {
+      kind: "connect",
+      intentToken: createSimulatedIntentToken(),
+    });
+    const session = await client.resumeSession();
+
+    const newerToken = createSimulatedIntentToken();
+    saveActiveSession(client.id, { kind: "connect", intentToken: newerToken });
+
+    session?.close();
+    await session?.result.catch(() => undefined);
+
+    expect(loadActiveSession(client.id)?.intentToken).toBe(newerToken);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Persistence of the open session across page reloads
+ * The Provider saves its active session to sessionStorage and resumes it on mount
+ */
+
+import { logger } from "../logger";
+import { PASSAGE_ACTIVE_SESSION_KEY } from "../config";
+import type { BrandingConfig, GenerateAppClipResponse } from "../types";
+
+export interface PersistedPassageSession {
+  /**
+   * Which flow the session belongs to
+   */
+  kind: "connect" | "appClip";
+  intentToken: string;
+  connectionId?: string;
+  presentationStyle?: "modal" | "embed";
+
+  /**
+   * Embed container selector, element containers cannot be persisted
+   */
+  container?: string;
+  returnUrl?: string;
+  appClipData?: GenerateAppClipResponse;
+  branding?: BrandingConfig | null;
+
+  /**
+   * When the session was saved (ISO string)
+   */
+  savedAt: string;
+}
+
+function getStorageKey(clientId: string): string {
+  return `${PASSAGE_ACTIVE_SESSION_KEY}:${clientId}`;
+}
+
+function getSessionStorage(): Storage | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+
+  try {
+    return window.sessionStorage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save the active session of a client
+ */
+export function saveActiveSession(
+  clientId: string,
+  session: Omit<PersistedPassageSession, "savedAt">
+): void {
+  const storage = getSessionStorage();
+  if (!storage) {
+    return;
+  }
+
+  try {
+    storage.setItem(
+      getStorageKey(clientId),
+      JSON.stringify({ ...session, savedAt: new Date().toISOString() })
+    );
+  } catch (error) {
+    logger.warn("[SessionPersistence] Failed to save active session:", error);
+  }
+}
+
+/**
+ * Load the active session saved for a client, null when there is none
+ */
+export function loadActiveSession(
+  clientId: string
+): PersistedPassageSession | null {
+  const storage = getSessionStorage();
+  if (!storage) {
+    return null;
+  }
+
+  try {
+    const raw = storage.getItem(getStorageKey(clientId));
+    if (!raw) {
+      return null;
+    }
+
+    const session = JSON.parse(raw) as PersistedPassageSession;
+    return session?.intentToken ? session : null;
+  } catch (error) {
+    logger.warn("[SessionPersistence] Failed to load active session:", error);
+    return null;
+  }
+}
+
+export function clearActiveSession(clientId: string): void {
+  const storage = getSessionStorage();
+  if (!storage) {
+    return;
+  }
+
+  try {
+    storage.removeItem(getStorageKey(clientId));
+  } catch (error) {
+    logger.warn("[SessionPersistence] Failed to clear active session:", error);
+  }
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  PassageSessionState,
+  PassageSessionStateMachine,
+  SESSION_TRANSITIONS,
+  TERMINAL_SESSION_STATES,
+  canTransition,
+  isTerminalSessionState,
+} from "./sessionState";
+import { PassageSession, SESSION_EXITED_CODE } from "./session";
+
+describe("session lifecycle transitions", () => {
+  it("only moves running states forward", () => {
+    expect(canTransition("pending", "connecting")).toBe(true);
+    expect(canTransition("connecting", "connected")).toBe(true);
+    expect(canTransition("connected", "data_processing")).toBe(true);
+    expect(canTransition("data_processing", "data_available")).toBe(true);
+
+    expect(canTransition("connected", "connecting")).toBe(false);
+    expect(canTransition("data_available", "pending")).toBe(false);
+  });
+
+  it("lets resumed sessions jump from idle to any later state", () => {
+    expect(canTransition("idle", "data_processing")).toBe(true);
+    expect(canTransition("idle", "completed")).toBe(true);
+  });
+
+  it("lets every running state end in a terminal state", () => {
+    const running = (
+      Object.keys(SESSION_TRANSITIONS) as PassageSessionState[]
+    ).filter((state) => !isTerminalSessionState(state));
+
+    running.forEach((from) => {
+      TERMINAL_SESSION_STATES.forEach((to) => {
+        expect(canTransition(from, to)).toBe(true);
+      });
+    });
+  });
+
+  it("never leaves a terminal state", () => {
+    TERMINAL_SESSION_STATES.forEach((from) => {
+      expect(isTerminalSessionState(from)).toBe(true);
+      expect(SESSION_TRANSITIONS[from]).toEqual([]);
+    });
+  });
+});
+
+describe("PassageSessionStateMachine", () => {
+  it("reports each accepted change", () => {
+    const machine = new PassageSessionStateMachine();
+
+    expect(machine.transition("pending")).toEqual({
+      from: "idle",
+      to: "pending",
+    });
+    expect(machine.state).toBe("pending");
+    expect(machine.isTerminal).toBe(false);
+  });
+
+  it("ignores illegal and repeated transitions", () => {
+    const machine = new PassageSessionStateMachine();
+    machine.transition("connected");
+
+    expect(machine.transition("connected")).toBeNull();
+    expect(machine.transition("pending")).toBeNull();
+    expect(machine.state).toBe("connected");
+
+    machine.transition("completed");
+    expect(machine.transition("failed")).toBeNull();
+    expect(machine.state).toBe("completed");
+    expect(machine.isTerminal).toBe(true);
+  });
+});
+
+describe("PassageSession lifecycle", () => {
+  it("fires a single terminal callback", async () => {
+    const onConnectionComplete = vi.fn();
+    const onConnectionError = vi.fn();
+    const onExit = vi.fn();
+    const session = new PassageSession({
+      callbacks: { onConnectionComplete, onConnectionError, onExit },
+    });
+
+    session.updateStatus("connecting");
+    session.complete({ connectionId: "connection-1", status: "done" });
+    session.fail({ error: "too late" });
+    session.exit("manual_close");
+
+    expect(session.state).toBe("completed");
+    expect(onConnectionComplete).toHaveBeenCalledTimes(1);
+    expect(onConnectionError).not.toHaveBeenCalled();
+    expect(onExit).not.toHaveBeenCalled();
+    await expect(session.result).resolves.toMatchObject({
+      connectionId: "connection-1",
+    });
+  });
+
+  it("rejects statuses moving backwards", () => {
+    const session = new PassageSession({});
+
+    expect(session.updateStatus("connected")).toBe(true);
+    expect(session.updateStatus("pending")).toBe(false);
+    expect(session.status).toBe("connected");
+    expect(session.statusHistory.map((entry) => entry.status)).toEqual([
+      "connected",
+    ]);
+  });
+
+  it("emits stateChange for each transition", () => {
+    const session = new PassageSession({});
+    const changes: string[] = [];
+    session.on("stateChange", ({ from, to }) => changes.push(`${from}>${to}`));
+
+    session.updateStatus("pending");
+    session.updateStatus("connected");
+    session.fail({ error: "Connection failed" });
+
+    expect(changes).toEqual([
+      "idle>pending",
+      "pending>connected",
+      "connected>failed",
+    ]);
+  });
+
+  it("exits when closed before reaching a terminal state", async () => {
+    const onExit = vi.fn();
+    const session = new PassageSession({ callbacks: { onExit } });
+
+    session.updateStatus("pending");
+    session.markClosed("manual_close");
+
+    expect(session.state).toBe("exited");
+    expect(onExit).toHaveBeenCalledWith("manual_close");
+    await expect(session.result).rejects.toMatchObject({
+      code: SESSION_EXITED_CODE,
+    });
+  });
+
+  it("exits when closed before it connects", async () => {
+    const onExit = vi.fn();
+    const session = new PassageSession({ callbacks: { onExit } });
+    const changes: string[] = [];
+    session.on("stateChange", ({ from, to }) => changes.push(`${from}>${to}`));
+
+    session.markClosed("manual_close");
+
+    expect(session.state).toBe("exited");
+    expect(session.isSettled).toBe(true);
+    expect(changes).toEqual(["idle>exited"]);
+    expect(onExit).toHaveBeenCalledTimes(1);
+    await expect(session.result).rejects.toMatchObject({
+      code: SESSION_EXITED_CODE,
+    });
+  });
+
+  it("ends in the exited state without onExit when asked not to exit", async () => {
+    const onExit = vi.fn();
+    const session = new PassageSession({ callbacks: { onExit } });
+    const changes: string[] = [];
+    session.on("stateChange", ({ to }) => changes.push(to));
+
+    session.updateStatus("data_processing");
+    session.markClosed("manual_close", false);
+
+    expect(session.isClosed).toBe(true);
+    expect(session.state).toBe("exited");
+    expect(session.isSettled).toBe(true);
+    expect(changes).toEqual(["data_processing", "exited"]);
+    expect(onExit).not.toHaveBeenCalled();
+    await expect(session.result).rejects.toMatchObject({
+      code: SESSION_EXITED_CODE,
+    });
+  });
+});
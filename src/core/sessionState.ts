@@ -0,0 +1,106 @@
+/**
+ * Lifecycle state machine of a Passage session
+ * Connection statuses move a session through its running states, completed, failed and
+ * exited are terminal and can only be reached once
+ */
+
+import { logger } from "../logger";
+
+export type PassageSessionState =
+  | "idle"
+  | "pending"
+  | "connecting"
+  | "connected"
+  | "data_processing"
+  | "data_available"
+  | "completed"
+  | "failed"
+  | "exited";
+
+export const TERMINAL_SESSION_STATES: readonly PassageSessionState[] = [
+  "completed",
+  "failed",
+  "exited",
+];
+
+const TERMINAL = TERMINAL_SESSION_STATES;
+
+/**
+ * States each state may move to, running states only move forward
+ * Resumed sessions start idle and may jump straight to any later state
+ */
+export const SESSION_TRANSITIONS: Readonly<
+  Record<PassageSessionState, readonly PassageSessionState[]>
+> = {
+  idle: [
+    "pending",
+    "connecting",
+    "connected",
+    "data_processing",
+    "data_available",
+    ...TERMINAL,
+  ],
+  pending: [
+    "connecting",
+    "connected",
+    "data_processing",
+    "data_available",
+    ...TERMINAL,
+  ],
+  connecting: ["connected", "data_processing", "data_available", ...TERMINAL],
+  connected: ["data_processing", "data_available", ...TERMINAL],
+  data_processing: ["data_available", ...TERMINAL],
+  data_available: [...TERMINAL],
+  completed: [],
+  failed: [],
+  exited: [],
+};
+
+export interface PassageSessionStateChange {
+  from: PassageSessionState;
+  to: PassageSessionState;
+}
+
+export function isTerminalSessionState(state: PassageSessionState): boolean {
+  return TERMINAL_SESSION_STATES.includes(state);
+}
+
+export function canTransition(
+  from: PassageSessionState,
+  to: PassageSessionState
+): boolean {
+  return SESSION_TRANSITIONS[from].includes(to);
+}
+
+export class PassageSessionStateMachine {
+  private current: PassageSessionState = "idle";
+
+  get state(): PassageSessionState {
+    return this.current;
+  }
+
+  get isTerminal(): boolean {
+    return isTerminalSessionState(this.current);
+  }
+
+  /**
+   * Move to a state, returns the change or null when the transition is not allowed
+   * Illegal transitions are logged and leave the state unchanged
+   */
+  transition(to: PassageSessionState): PassageSessionStateChange | null {
+    const from = this.current;
+    if (from === to) {
+      return null;
+    }
+
+    if (!canTransition(from, to)) {
+      logger.warn(
+        `[PassageSessionStateMachine] Ignoring illegal transition ${from} -> ${to}`
+      );
+      return null;
+    }
+
+    this.current = to;
+    return { from, to };
+  }
+}
@@ -4,7 +4,8 @@
  */
 
 import { logger } from '../logger';
-import { getConfig } from './passage';
+import { getApiClient } from './passage';
+import { isPassageApiError } from './apiClient';
 
 export interface ShortCodeConfig {
   shortCode: string;
@@ -31,37 +32,31 @@ export interface IntentTokenResponse {
  * @returns Promise with the resolved intent token and config
  */
 export async function resolveShortCode(shortCode: string): Promise<IntentTokenResponse> {
-  const config = getConfig();
-  const apiUrl = config?.apiUrl || 'https://api.getpassage.ai';
+  const apiClient = getApiClient();
 
   try {
     logger.info('[ShortCode] Resolving short code:', shortCode);
 
-    // First, try to fetch the intent-token-link configuration
-    const configResponse = await fetch(
-      `${apiUrl}/intent-token-links/short-code/${encodeURIComponent(shortCode)}`
-    );
-
     let integrationName = 'account'; // default
 
-    if (configResponse.ok) {
-      const configData = await configResponse.json();
-      integrationName = configData.integrationName || 'account';
+    // First, try to fetch the intent-token-link configuration
+    try {
+      const configData = await apiClient.get<any>(
+        `/intent-token-links/short-code/${encodeURIComponent(shortCode)}`
+      );
+      integrationName = configData?.integrationName || 'account';
       logger.debug('[ShortCode] Found configuration:', configData);
+    } catch (configError) {
+      logger.debug('[ShortCode] No configuration found for short code:', configError);
     }
 
     // Now resolve the short code to get the actual intent token
-    const tokenResponse = await fetch(
-      `${apiUrl}/intent-token?shortCode=${encodeURIComponent(shortCode)}`
-    );
-
-    if (!tokenResponse.ok) {
-      throw new Error(`Failed to resolve short code: ${tokenResponse.statusText}`);
-    }
-
-    const tokenData = await tokenResponse.json();
+    const tokenData = await apiClient.get<any>('/intent-token', {
+      query: { shortCode },
+      errorMessage: 'Failed to resolve short code'
+    });
 
-    if (!tokenData.intentToken) {
+    if (!tokenData?.intentToken) {
       throw new Error('No intent token returned from short code resolution');
     }
 
@@ -97,19 +92,10 @@ export async function validateIntentToken(
     }
 
     if (verify) {
-      const config = getConfig();
-      const apiUrl = config?.apiUrl || 'https://api.getpassage.ai';
-
-      // Verify with server
-      const response = await fetch(`${apiUrl}/intent-token/validate`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ intentToken })
+      // Verify with server, any non-2xx response rejects
+      await getApiClient().post('/intent-token/validate', {
+        body: { intentToken }
       });
-
-      return response.ok;
     }
 
     return true;
@@ -124,21 +110,11 @@ export async function validateIntentToken(
  * Useful for displaying integration information before connection
  */
 export async function getShortCodeConfig(shortCode: string): Promise<ShortCodeConfig | null> {
-  const config = getConfig();
-  const apiUrl = config?.apiUrl || 'https://api.getpassage.ai';
-
   try {
-    const response = await fetch(
-      `${apiUrl}/intent-token-links/short-code/${encodeURIComponent(shortCode)}`
+    const data = await getApiClient().get<any>(
+      `/intent-token-links/short-code/${encodeURIComponent(shortCode)}`
     );
 
-    if (!response.ok) {
-      logger.warn('[ShortCode] No configuration found for short code');
-      return null;
-    }
-
-    const data = await response.json();
-
     return {
       shortCode: data.shortCode,
       intentToken: data.intentToken || '',
@@ -151,7 +127,11 @@ export async function getShortCodeConfig(shortCode: string): Promise<ShortCodeCo
       colorTextSecondary: data.colorTextSecondary
     };
   } catch (error) {
-    logger.error('[ShortCode] Failed to get short code config:', error);
+    if (isPassageApiError(error) && error.status > 0) {
+      logger.warn('[ShortCode] No configuration found for short code');
+    } else {
+      logger.error('[ShortCode] Failed to get short code config:', error);
+    }
     return null;
   }
 }
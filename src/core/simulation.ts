@@ -0,0 +1,149 @@
+/**
+ * Fixtures of simulate mode (configure({ mode: "simulate" }))
+ * Everything here is generated locally, nothing reaches the Passage backend
+ */
+
+import { DEFAULT_SIMULATION_DELAY } from "../config";
+import type {
+  ConnectionUpdate,
+  GenerateAppClipOptions,
+  GenerateAppClipResponse,
+  PassageDataResult,
+  PassageSimulationOptions,
+} from "../types";
+
+export const SIMULATED_CONNECTION_ID = "simulated-connection";
+
+let simulatedConnectionCounter = 0;
+
+export const DEFAULT_SIMULATED_DATA = [
+  {
+    id: "simulated-order-1",
+    type: "order",
+    total: 42.5,
+    currency: "USD",
+    createdAt: "2024-01-01T12:00:00.000Z",
+  },
+  {
+    id: "simulated-order-2",
+    type: "order",
+    total: 18.99,
+    currency: "USD",
+    createdAt: "2024-01-08T12:00:00.000Z",
+  },
+];
+
+export const DEFAULT_SIMULATED_PROMPTS: NonNullable<
+  PassageSimulationOptions["prompts"]
+> = [
+  {
+    name: "summary",
+    result: "Two orders totalling $61.49 in January.",
+  },
+];
+
+/**
+ * Simulation options with the defaults filled in
+ */
+export function resolveSimulation(
+  simulation: PassageSimulationOptions = {}
+): Required<PassageSimulationOptions> {
+  return {
+    outcome: simulation.outcome ?? "success",
+    delay: simulation.delay ?? DEFAULT_SIMULATION_DELAY,
+    data: simulation.data ?? DEFAULT_SIMULATED_DATA,
+    prompts: simulation.prompts ?? DEFAULT_SIMULATED_PROMPTS,
+  };
+}
+
+function base64UrlEncode(value: string): string {
+  return btoa(value).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Connection id of a new simulated session, unique so simulated sessions can run side by side
+ */
+export function createSimulatedConnectionId(): string {
+  return `${SIMULATED_CONNECTION_ID}-${++simulatedConnectionCounter}`;
+}
+
+/**
+ * Unsigned intent token carrying the simulated connection id, valid for a day
+ */
+export function createSimulatedIntentToken(
+  connectionId: string = createSimulatedConnectionId()
+): string {
+  const header = base64UrlEncode(JSON.stringify({ alg: "none", typ: "JWT" }));
+  const payload = base64UrlEncode(
+    JSON.stringify({
+      sessionId: connectionId,
+      simulated: true,
+      exp: Math.floor(Date.now() / 1000) + 24 * 60 * 60,
+    })
+  );
+  return `${header}.${payload}.`;
+}
+
+/**
+ * Local stand-in for the intent token response of generateAppClip()
+ */
+export function createSimulatedAppClip(
+  options: GenerateAppClipOptions
+): GenerateAppClipResponse {
+  const connectionId = createSimulatedConnectionId();
+  const intentToken = createSimulatedIntentToken(connectionId);
+  return {
+    intentToken,
+    connectionId,
+    url: `https://appclip.example.com/simulated?integration=${encodeURIComponent(
+      options.integrationId
+    )}`,
+    appClipUrl: "https://appclip.example.com/simulated?shortCode=SIMULATED",
+    shortToken: "",
+    debug: !!options.debug,
+    record: !!options.record,
+    clearAllCookies: !!options.clearAllCookies,
+    interactive: !!options.interactive,
+    returnUrl: options.returnUrl,
+    branding: { integrationName: options.integrationId },
+  };
+}
+
+/**
+ * Connection state the simulated session ends with on success
+ */
+export function createSimulatedConnection(
+  simulation: Required<PassageSimulationOptions>,
+  connectionId: string = SIMULATED_CONNECTION_ID
+): ConnectionUpdate {
+  return {
+    id: connectionId,
+    status: "data_available",
+    data: simulation.data,
+    promptResults: simulation.prompts.map((prompt, index) => ({
+      name: prompt.name,
+      promptId: `simulated-prompt-${index + 1}`,
+      status: prompt.status ?? "completed",
+      result: prompt.result,
+    })),
+  };
+}
+
+/**
+ * Data result of a successful simulated session, returned by getData()
+ */
+export function getSimulatedDataResult(
+  simulation: PassageSimulationOptions | undefined,
+  intentToken?: string
+): PassageDataResult {
+  const resolved = resolveSimulation(simulation);
+  return {
+    data: resolved.data,
+    prompts: resolved.prompts.map((prompt) => ({
+      name: prompt.name,
+      content: prompt.result,
+      response: prompt.result,
+    })),
+    intentToken,
+  };
+}
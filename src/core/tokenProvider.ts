@@ -0,0 +1,63 @@
+/**
+ * Browser tokenProvider backed by your own token route
+ * Pairs with createTokenHandler/createExpressTokenHandler from "@getpassage/react-js/server"
+ */
+
+import type { PassageTokenProvider } from "../types";
+
+export interface FetchTokenProviderOptions {
+  /**
+   * JSON body sent to the route, e.g. the integration to connect
+   */
+  body?: unknown | (() => unknown);
+
+  /**
+   * Extra headers, e.g. an auth header for your backend
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * @default "same-origin"
+   */
+  credentials?: RequestCredentials;
+}
+
+/**
+ * Create a tokenProvider that POSTs to a route and reads `intentToken` from the JSON response
+ *
+ * @example
+ * ```ts
+ * configure({ tokenProvider: createFetchTokenProvider('/api/passage-token') });
+ * ```
+ */
+export function createFetchTokenProvider(
+  url: string,
+  options: FetchTokenProviderOptions = {}
+): PassageTokenProvider {
+  return async () => {
+    const body =
+      typeof options.body === "function" ? options.body() : options.body;
+
+    const response = await fetch(url, {
+      method: "POST",
+      credentials: options.credentials ?? "same-origin",
+      headers: { "Content-Type": "application/json", ...options.headers },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    const payload = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      throw new Error(
+        payload?.error ||
+          `Token route responded with ${response.status} ${response.statusText}`
+      );
+    }
+
+    if (!payload?.intentToken) {
+      throw new Error("Token route response is missing intentToken");
+    }
+
+    return payload.intentToken;
+  };
+}
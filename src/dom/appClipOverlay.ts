@@ -0,0 +1,246 @@
+/**
+ * DOM version of AppClipModal, renders the App Clip QR code as an overlay or inline without React
+ */
+
+import QRCodeLib from "qrcode";
+import { logger } from "../logger";
+import { getAppClipQrCodeUrl } from "../core/connectFrame";
+import { applyBranding, resetBranding } from "../utils/branding";
+import { detectDevice, getQrCodeSize } from "../utils/device";
+import type { BrandingConfig, GenerateAppClipResponse } from "../types";
+import { createElement } from "./styles";
+
+export interface AppClipOverlayOptions {
+  appClipData: GenerateAppClipResponse;
+  branding: BrandingConfig | null;
+  onClose: () => void;
+}
+
+function createLogo(logoUrl?: string): HTMLElement {
+  const fallback = createElement(
+    "div",
+    {
+      width: "80px",
+      height: "80px",
+      background: "linear-gradient(135deg, #667eea 0%, #764ba2 100%)",
+      borderRadius: "20px",
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      fontSize: "36px",
+      fontWeight: "bold",
+      color: "white",
+    },
+    "P"
+  );
+
+  if (!logoUrl) {
+    return fallback;
+  }
+
+  const image = createElement("img", {
+    width: "80px",
+    height: "80px",
+    borderRadius: "20px",
+    objectFit: "contain",
+  });
+  image.src = logoUrl;
+  image.alt = "Logo";
+  image.onerror = () => image.replaceWith(fallback);
+  return image;
+}
+
+function createQrCode(value: string): HTMLElement {
+  const size = getQrCodeSize(window.innerWidth);
+  const wrapper = createElement("div", {
+    width: `${size}px`,
+    height: `${size}px`,
+    padding: "12px",
+    backgroundColor: "#FFFFFF",
+    borderRadius: "16px",
+    margin: "0 auto",
+  });
+
+  QRCodeLib.toDataURL(
+    value,
+    {
+      width: size,
+      margin: 1,
+      color: { dark: "#000000", light: "#FFFFFF" },
+      errorCorrectionLevel: "M",
+    },
+    (error, url) => {
+      if (error) {
+        logger.error("[AppClipOverlay] Error generating QR code:", error);
+        return;
+      }
+      const image = createElement("img", {
+        display: "block",
+        width: "100%",
+        height: "auto",
+      });
+      image.src = url;
+      image.alt = "QR Code";
+      wrapper.appendChild(image);
+    }
+  );
+
+  return wrapper;
+}
+
+// Build the App Clip card: QR code on desktop, a launch link on iOS, a notice on Android
+function createAppClipView(
+  appClipData: GenerateAppClipResponse,
+  branding: BrandingConfig | null
+): HTMLElement {
+  const { isAndroid, isIosMobile } = detectDevice();
+  const qrCodeUrl = getAppClipQrCodeUrl(appClipData);
+  const integrationName = branding?.integrationName || "account";
+
+  const card = createElement("div", {
+    position: "relative",
+    display: "flex",
+    flexDirection: "column",
+    alignItems: "center",
+    gap: "12px",
+    minWidth: "320px",
+    maxWidth: "90vw",
+    maxHeight: "90vh",
+    overflow: "auto",
+    padding: "32px",
+    borderRadius: "24px",
+    backgroundColor: "var(--color-card-background, #f5f5f5)",
+    color: "var(--color-text, #000000)",
+    fontFamily: "inherit",
+    textAlign: "center",
+  });
+  card.className = "passage-app-clip-view";
+  card.appendChild(createLogo(branding?.logoUrl));
+
+  const subtitleStyles = {
+    margin: 0,
+    color: "var(--color-text-secondary, rgba(0, 0, 0, 0.6))",
+  };
+
+  if (isAndroid) {
+    card.appendChild(
+      createElement(
+        "p",
+        { margin: 0, fontWeight: 600 },
+        "Passage Connect is not yet available for Android."
+      )
+    );
+    card.appendChild(
+      createElement(
+        "p",
+        subtitleStyles,
+        "We're working hard to bring the seamless connection experience to Android devices. Stay tuned!"
+      )
+    );
+  } else {
+    card.appendChild(
+      createElement(
+        "h2",
+        { margin: 0 },
+        integrationName !== "account"
+          ? `Link your ${integrationName} account`
+          : "Link your account"
+      )
+    );
+
+    if (isIosMobile) {
+      card.appendChild(
+        createElement("p", subtitleStyles, "Built by the team behind Plaid")
+      );
+      const link = createElement(
+        "a",
+        {
+          display: "inline-block",
+          padding: "12px 24px",
+          borderRadius: "12px",
+          backgroundColor: "var(--color-primary, #2563eb)",
+          color: "#FFFFFF",
+          textDecoration: "none",
+          fontWeight: 600,
+        },
+        `Connect ${integrationName !== "account" ? integrationName : ""}`.trim()
+      );
+      link.href = qrCodeUrl;
+      link.target = "_blank";
+      link.rel = "noopener noreferrer";
+      card.appendChild(link);
+    } else {
+      card.appendChild(
+        createElement("p", subtitleStyles, "Securely connect with your iPhone")
+      );
+      card.appendChild(createQrCode(qrCodeUrl));
+    }
+  }
+
+  logger.debug("[AppClipOverlay] Built App Clip view:", {
+    shortToken: appClipData.shortToken,
+    isAndroid,
+    isIosMobile,
+  });
+
+  return card;
+}
+
+/**
+ * Mount the App Clip overlay on the document body, returns a function removing it again
+ */
+export function mountAppClipOverlay(
+  options: AppClipOverlayOptions
+): () => void {
+  const { appClipData, branding, onClose } = options;
+
+  applyBranding(branding);
+
+  const overlay = createElement("div", {
+    position: "fixed",
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    // Append 80 for 50% opacity in hex
+    backgroundColor: branding?.colorBackground
+      ? `${branding.colorBackground}80`
+      : "rgba(0, 0, 0, 0.5)",
+    backdropFilter: "blur(4px)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 9999,
+  });
+  overlay.className = "passage-app-clip-modal-overlay";
+  overlay.addEventListener("click", onClose);
+
+  const card = createAppClipView(appClipData, branding);
+  card.addEventListener("click", (event) => event.stopPropagation());
+
+  overlay.appendChild(card);
+  document.body.appendChild(overlay);
+
+  return () => {
+    overlay.remove();
+    resetBranding();
+  };
+}
+
+/**
+ * Mount the App Clip view inline in a container, returns a function removing it again
+ */
+export function mountAppClipEmbed(
+  container: HTMLElement,
+  options: Omit<AppClipOverlayOptions, "onClose">
+): () => void {
+  applyBranding(options.branding);
+
+  const card = createAppClipView(options.appClipData, options.branding);
+  container.appendChild(card);
+
+  return () => {
+    card.remove();
+    resetBranding();
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * DOM version of PassageModal, renders the connect flow iframe without React
+ */
+
+import { logger } from "../logger";
+import {
+  RECONNECTING_NOTICE_STYLES,
+  RECONNECTING_NOTICE_TEXT,
+  buildConnectUrl,
+  buildSimulatedConnectDocument,
+  createConnectFrameMessageHandler,
+} from "../core/connectFrame";
+import type { ConnectionStatus, PassageModalStyles } from "../types";
+import { applyStyles, createElement } from "./styles";
+
+export interface ConnectModalOptions {
+  intentToken: string | null;
+  baseUrl: string;
+  presentationStyle: "modal" | "embed";
+  /**
+   * Element the embed is rendered into, required for the embed presentation
+   */
+  container?: HTMLElement | null;
+  customStyles?: PassageModalStyles;
+  /** Render the local stand-in of simulate mode instead of the connect flow */
+  simulated?: boolean;
+  status?: ConnectionStatus | null;
+  onClose: () => void;
+}
+
+export interface ConnectModalHandle {
+  /** Show or hide the reconnecting notice */
+  setReconnecting(isReconnecting: boolean): void;
+  /** Update the status shown by the simulated stand-in */
+  setStatus(status: ConnectionStatus | null): void;
+  unmount(): void;
+}
+
+function createConnectIframe(
+  options: ConnectModalOptions,
+  modal: boolean,
+  styles: Record<string, string>
+): HTMLIFrameElement {
+  const iframe = createElement("iframe", {
+    border: "none",
+    display: "block",
+    ...styles,
+  });
+  if (options.simulated) {
+    iframe.srcdoc = buildSimulatedConnectDocument(
+      options.status ?? null,
+      modal
+    );
+  } else {
+    iframe.src = buildConnectUrl(options.baseUrl, options.intentToken, modal);
+  }
+  iframe.title = "Passage Connect Flow";
+  iframe.allow = "clipboard-read; clipboard-write";
+  iframe.setAttribute(
+    "sandbox",
+    "allow-scripts allow-same-origin allow-forms allow-popups allow-popups-to-escape-sandbox"
+  );
+  return iframe;
+}
+
+/**
+ * Mount the connect flow, returns a handle updating and removing it again
+ */
+export function mountConnectModal(
+  options: ConnectModalOptions
+): ConnectModalHandle {
+  const modal = options.presentationStyle !== "embed" || !options.container;
+  let root: HTMLElement;
+  let iframe: HTMLIFrameElement;
+
+  if (options.presentationStyle === "embed" && options.container) {
+    logger.debug("[ConnectModal] Rendering in embed mode");
+
+    // Embed mode - render iframe directly without modal wrapper
+    root = createElement("div", {
+      position: "relative",
+      width: "100%",
+      height: "100%",
+      borderRadius: "12px",
+      overflow: "hidden",
+      backgroundColor: "#FFFFFF",
+    });
+    root.className = "passage-connect-flow";
+    applyStyles(root, options.customStyles?.content);
+    iframe = createConnectIframe(options, false, {
+      width: "100%",
+      height: "100%",
+    });
+    root.appendChild(iframe);
+    options.container.appendChild(root);
+  } else {
+    logger.debug("[ConnectModal] Rendering in fullscreen transparent mode");
+
+    // Modal presentation - fullscreen transparent iframe, ConnectFlow draws the modal UI
+    root = createElement("div", {
+      position: "fixed",
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: "transparent",
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      zIndex: 99999,
+      pointerEvents: "none", // Allow interactions to pass through to iframe
+      opacity: 0,
+      transition: "opacity 0.15s ease-in-out",
+    });
+    root.className = "passage-modal-fullscreen";
+    root.setAttribute("data-passage-modal", "true");
+    iframe = createConnectIframe(options, true, {
+      width: "100vw",
+      height: "100vh",
+      backgroundColor: "transparent",
+      pointerEvents: "auto", // Enable interactions with iframe content
+    });
+    root.appendChild(iframe);
+    document.body.appendChild(root);
+    requestAnimationFrame(() => {
+      root.style.opacity = "1";
+    });
+  }
+
+  // The simulated stand-in is served from the host page's origin
+  const handleMessage = createConnectFrameMessageHandler(
+    options.simulated ? window.location.origin : options.baseUrl,
+    () => iframe,
+    options.onClose
+  );
+  window.addEventListener("message", handleMessage);
+
+  const notice = createElement(
+    "div",
+    RECONNECTING_NOTICE_STYLES,
+    RECONNECTING_NOTICE_TEXT
+  );
+  notice.className = "passage-reconnecting";
+  notice.setAttribute("role", "status");
+
+  return {
+    setReconnecting: (isReconnecting) => {
+      if (!isReconnecting) {
+        notice.remove();
+      } else if (!notice.isConnected) {
+        root.appendChild(notice);
+      }
+    },
+    setStatus: (status) => {
+      if (options.simulated) {
+        iframe.srcdoc = buildSimulatedConnectDocument(status, modal);
+      }
+    },
+    unmount: () => {
+      window.removeEventListener("message", handleMessage);
+      root.remove();
+    },
+  };
+}
@@ -0,0 +1,53 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  definePassageElements,
+  PASSAGE_CONNECT_ELEMENT,
+  PASSAGE_ELEMENT_EVENTS,
+  PassageConnectElement,
+} from "./elements";
+import { createPassageClient } from "../core/client";
+import { logger } from "../logger";
+
+function createExpiredIntentToken(): string {
+  const encode = (value: object) =>
+    btoa(JSON.stringify(value))
+      .replace(/=+$/, "")
+      .replace(/\+/g, "-")
+      .replace(/\//g, "_");
+  return `${encode({ alg: "none" })}.${encode({
+    sessionId: "expired-connection",
+    exp: Math.floor(Date.now() / 1000) - 60,
+  })}.`;
+}
+
+describe("<passage-connect>", () => {
+  afterEach(() => {
+    document.body.innerHTML = "";
+    vi.restoreAllMocks();
+  });
+
+  it("dispatches the error of a session failing inside open()", async () => {
+    vi.spyOn(logger, "error").mockImplementation(() => undefined);
+    definePassageElements();
+    const element = document.createElement(
+      PASSAGE_CONNECT_ELEMENT
+    ) as PassageConnectElement;
+    element.client = createPassageClient({});
+    element.setAttribute("token", createExpiredIntentToken());
+    const onError = vi.fn();
+    element.addEventListener(PASSAGE_ELEMENT_EVENTS.connectionError, (event) =>
+      onError((event as CustomEvent).detail)
+    );
+
+    document.body.appendChild(element);
+
+    await vi.waitFor(() =>
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ code: "TOKEN_EXPIRED" })
+      )
+    );
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(element.session?.state).toBe("failed");
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Custom elements for apps without React
+ * <passage-connect token="..."> and <passage-app-clip integration-id="..."> render into their
+ * shadow root and re-dispatch the session callbacks as DOM events
+ */
+
+import { logger } from "../logger";
+import { getDefaultClient } from "../core/client";
+import type { PassageClient } from "../core/client";
+import type { PassageSession } from "../core/session";
+import type {
+  OpenAppClipOptions,
+  PassageErrorData,
+  PassageOpenOptions,
+} from "../types";
+
+export const PASSAGE_CONNECT_ELEMENT = "passage-connect";
+export const PASSAGE_APP_CLIP_ELEMENT = "passage-app-clip";
+
+/**
+ * DOM events dispatched by the elements, they bubble and cross shadow boundaries
+ */
+export const PASSAGE_ELEMENT_EVENTS = {
+  connectionComplete: "passage-connection-complete",
+  connectionError: "passage-connection-error",
+  dataComplete: "passage-data-complete",
+  exit: "passage-exit",
+  statusChange: "passage-status-change",
+} as const;
+
+interface PassageSessionElement extends HTMLElement {
+  /**
+   * Client the element opens sessions with, defaults to the one given to definePassageElements()
+   */
+  client: PassageClient | null;
+
+  /**
+   * Session currently shown by the element
+   */
+  readonly session: PassageSession | null;
+
+  /**
+   * Close the session, it restarts when the element is reattached or its attributes change
+   */
+  close(): void;
+}
+
+export interface PassageConnectElement extends PassageSessionElement {
+  /**
+   * Options without an attribute (tokenProvider, ...), merged under the attributes
+   */
+  options: Partial<PassageOpenOptions>;
+}
+
+export interface PassageAppClipElement extends PassageSessionElement {
+  /**
+   * Options without an attribute (resources, prompts, ...), merged under the attributes
+   */
+  options: Partial<OpenAppClipOptions>;
+}
+
+export interface DefinePassageElementsOptions {
+  /**
+   * Client used by elements without their own, defaults to the global client
+   */
+  client?: PassageClient;
+}
+
+const SHADOW_STYLES = `
+  :host { display: block; }
+  :host([hidden]) { display: none; }
+  .passage-mount { width: 100%; height: 100%; }
+`;
+
+// Classes are created on first definition, HTMLElement does not exist during SSR
+function createElementClasses(defaultClient?: PassageClient) {
+  abstract class PassageSessionElementBase
+    extends HTMLElement
+    implements PassageSessionElement
+  {
+    client: PassageClient | null = null;
+    protected mountPoint: HTMLDivElement;
+    private currentSession: PassageSession | null = null;
+    private restartScheduled = false;
+    // Incremented on every (re)start so late async opens can tell they are stale
+    private generation = 0;
+
+    constructor() {
+      super();
+      const root = this.attachShadow({ mode: "open" });
+      const style = document.createElement("style");
+      style.textContent = SHADOW_STYLES;
+      this.mountPoint = document.createElement("div");
+      this.mountPoint.className = "passage-mount";
+      root.append(style, this.mountPoint);
+    }
+
+    get session(): PassageSession | null {
+      return this.currentSession;
+    }
+
+    connectedCallback(): void {
+      this.scheduleRestart();
+    }
+
+    disconnectedCallback(): void {
+      this.stop();
+    }
+
+    attributeChangedCallback(
+      _name: string,
+      oldValue: string | null,
+      newValue: string | null
+    ): void {
+      if (oldValue !== newValue && this.isConnected) {
+        this.scheduleRestart();
+      }
+    }
+
+    close(): void {
+      this.stop();
+    }
+
+    protected abstract start(
+      client: PassageClient
+    ): PassageSession | Promise<PassageSession> | null;
+
+    protected get presentationStyle(): "modal" | "embed" {
+      return this.getAttribute("presentation") === "modal" ? "modal" : "embed";
+    }
+
+    // Batch attribute changes made in the same task into a single restart
+    private scheduleRestart(): void {
+      if (this.restartScheduled) {
+        return;
+      }
+      this.restartScheduled = true;
+
+      Promise.resolve().then(() => {
+        this.restartScheduled = false;
+        if (this.isConnected) {
+          this.restart();
+        }
+      });
+    }
+
+    private restart(): void {
+      this.stop();
+      const generation = this.generation;
+      const client = this.client ?? defaultClient ?? getDefaultClient();
+
+      Promise.resolve()
+        .then(() => this.start(client))
+        .then((session) => {
+          if (!session) {
+            return;
+          }
+          if (generation !== this.generation) {
+            session.close();
+            return;
+          }
+          this.track(session);
+        })
+        .catch((error) => {
+          logger.error(`[${this.localName}] Failed to open:`, error);
+          const errorData: PassageErrorData = {
+            error: error instanceof Error ? error.message : "Failed to open",
+            code: "OPEN_ERROR",
+          };
+          this.emit(PASSAGE_ELEMENT_EVENTS.connectionError, errorData);
+        });
+    }
+
+    private stop(): void {
+      this.generation++;
+      const session = this.currentSession;
+      this.currentSession = null;
+      if (session && !session.isClosed) {
+        session.close();
+      }
+    }
+
+    private track(session: PassageSession): void {
+      this.currentSession = session;
+
+      session.on("statusChange", (status) =>
+        this.emit(PASSAGE_ELEMENT_EVENTS.statusChange, { status })
+      );
+      session.on("connectionComplete", (data) =>
+        this.emit(PASSAGE_ELEMENT_EVENTS.connectionComplete, data)
+      );
+      session.on("connectionError", (error) =>
+        this.emit(PASSAGE_ELEMENT_EVENTS.connectionError, error)
+      );
+      session.on("dataComplete", (data) =>
+        this.emit(PASSAGE_ELEMENT_EVENTS.dataComplete, data)
+      );
+      session.on("exit", ({ reason }) =>
+        this.emit(PASSAGE_ELEMENT_EVENTS.exit, { reason })
+      );
+
+      // Sessions failing inside open() (expired token, missing Provider) fail before the listeners above exist
+      if (session.state === "failed" && session.lastError) {
+        this.emit(PASSAGE_ELEMENT_EVENTS.connectionError, session.lastError);
+      }
+    }
+
+    private emit(type: string, detail: unknown): void {
+      this.dispatchEvent(
+        new CustomEvent(type, { detail, bubbles: true, composed: true })
+      );
+    }
+  }
+
+  class PassageConnectElementImpl
+    extends PassageSessionElementBase
+    implements PassageConnectElement
+  {
+    static observedAttributes = ["token", "presentation"];
+    options: Partial<PassageOpenOptions> = {};
+
+    protected start(client: PassageClient): PassageSession | null {
+      const token = this.getAttribute("token") || this.options.token;
+      if (
+        !token &&
+        !this.options.tokenProvider &&
+        !client.getConfig()?.tokenProvider
+      ) {
+        logger.debug("[passage-connect] No token yet, waiting");
+        return null;
+      }
+
+      const presentationStyle = this.presentationStyle;
+      return client.open({
+        ...this.options,
+        token: token || undefined,
+        presentationStyle,
+        container: presentationStyle === "embed" ? this.mountPoint : undefined,
+      });
+    }
+  }
+
+  class PassageAppClipElementImpl
+    extends PassageSessionElementBase
+    implements PassageAppClipElement
+  {
+    static observedAttributes = [
+      "integration-id",
+      "return-url",
+      "user-id",
+      "presentation",
+    ];
+    options: Partial<OpenAppClipOptions> = {};
+
+    protected start(client: PassageClient): Promise<PassageSession> | null {
+      const integrationId =
+        this.getAttribute("integration-id") || this.options.integrationId;
+      if (!integrationId) {
+        logger.debug("[passage-app-clip] No integration-id yet, waiting");
+        return null;
+      }
+
+      const presentationStyle = this.presentationStyle;
+      return client.openAppClip({
+        ...this.options,
+        integrationId,
+        returnUrl: this.getAttribute("return-url") ?? this.options.returnUrl,
+        userId: this.getAttribute("user-id") ?? this.options.userId,
+        presentationStyle,
+        container: presentationStyle === "embed" ? this.mountPoint : undefined,
+      });
+    }
+  }
+
+  return {
+    PassageConnectElement: PassageConnectElementImpl,
+    PassageAppClipElement: PassageAppClipElementImpl,
+  };
+}
+
+/**
+ * Register <passage-connect> and <passage-app-clip>, does nothing outside the browser
+ * Both render inline (presentation="embed") unless presentation="modal" is set
+ *
+ * @example
+ * ```html
+ * <passage-connect token="..."></passage-connect>
+ * <script>
+ *   definePassageElements();
+ *   document.querySelector("passage-connect")
+ *     .addEventListener("passage-connection-complete", (event) => console.log(event.detail));
+ * </script>
+ * ```
+ */
+export function definePassageElements(
+  options: DefinePassageElementsOptions = {}
+): void {
+  if (typeof window === "undefined" || !window.customElements) {
+    return;
+  }
+
+  const registry = window.customElements;
+  if (
+    registry.get(PASSAGE_CONNECT_ELEMENT) &&
+    registry.get(PASSAGE_APP_CLIP_ELEMENT)
+  ) {
+    logger.debug("[PassageElements] Already defined");
+    return;
+  }
+
+  const classes = createElementClasses(options.client);
+  if (!registry.get(PASSAGE_CONNECT_ELEMENT)) {
+    registry.define(PASSAGE_CONNECT_ELEMENT, classes.PassageConnectElement);
+  }
+  if (!registry.get(PASSAGE_APP_CLIP_ELEMENT)) {
+    registry.define(PASSAGE_APP_CLIP_ELEMENT, classes.PassageAppClipElement);
+  }
+}
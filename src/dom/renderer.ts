@@ -0,0 +1,99 @@
+/**
+ * React-free renderer for a client's connect flow and App Clip overlay
+ * Used by the session manager whenever no PassageProvider is mounted for the client
+ */
+
+import { DEFAULT_UI_BASE_URL } from "../config";
+import type { PassageModalStyles } from "../types";
+import type { PassageViewState } from "../core/sessionManager";
+import { ConnectModalHandle, mountConnectModal } from "./connectModal";
+import { mountAppClipEmbed, mountAppClipOverlay } from "./appClipOverlay";
+
+export interface DomRendererOptions {
+  getUiUrl: () => string | undefined;
+  getCustomStyles: () => PassageModalStyles | undefined;
+  isSimulated: () => boolean;
+  onClose: () => void;
+  onCloseAppClip: () => void;
+}
+
+export class DomRenderer {
+  private modal: ConnectModalHandle | null = null;
+  private unmountAppClip: (() => void) | null = null;
+  private rendered: PassageViewState | null = null;
+
+  constructor(private options: DomRendererOptions) {}
+
+  /**
+   * Bring the DOM in line with the view state
+   */
+  render(state: PassageViewState): void {
+    const previous = this.rendered;
+    this.rendered = state;
+
+    const modalChanged =
+      !previous ||
+      previous.isOpen !== state.isOpen ||
+      previous.intentToken !== state.intentToken ||
+      previous.presentationStyle !== state.presentationStyle ||
+      previous.container !== state.container;
+
+    if (modalChanged) {
+      this.modal?.unmount();
+      this.modal = null;
+
+      if (state.isOpen) {
+        this.modal = mountConnectModal({
+          intentToken: state.intentToken,
+          baseUrl: this.options.getUiUrl() || DEFAULT_UI_BASE_URL,
+          presentationStyle: state.presentationStyle,
+          container: state.container,
+          customStyles: this.options.getCustomStyles(),
+          simulated: this.options.isSimulated(),
+          status: state.status,
+          onClose: this.options.onClose,
+        });
+      }
+    }
+
+    if (previous && previous.status !== state.status) {
+      this.modal?.setStatus(state.status);
+    }
+    this.modal?.setReconnecting(state.isReconnecting);
+
+    const appClipChanged =
+      !previous ||
+      previous.isAppClipOpen !== state.isAppClipOpen ||
+      previous.appClipData !== state.appClipData ||
+      previous.appClipContainer !== state.appClipContainer;
+
+    if (appClipChanged) {
+      this.unmountAppClip?.();
+      this.unmountAppClip = null;
+
+      if (state.isAppClipOpen && state.appClipData) {
+        this.unmountAppClip = state.appClipContainer
+          ? mountAppClipEmbed(state.appClipContainer, {
+              appClipData: state.appClipData,
+              branding: state.branding,
+            })
+          : mountAppClipOverlay({
+              appClipData: state.appClipData,
+              branding: state.branding,
+              onClose: this.options.onCloseAppClip,
+            });
+      }
+    }
+  }
+
+  /**
+   * Remove everything this renderer mounted
+   */
+  destroy(): void {
+    this.modal?.unmount();
+    this.unmountAppClip?.();
+    this.modal = null;
+    this.unmountAppClip = null;
+    this.rendered = null;
+  }
+}
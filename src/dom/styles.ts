@@ -0,0 +1,58 @@
+/**
+ * Inline style helpers for the DOM renderer
+ */
+
+// Numeric CSS properties that take no unit, mirrors React's handling of style objects
+const UNITLESS_PROPERTIES = new Set([
+  "flex",
+  "flexGrow",
+  "flexShrink",
+  "fontWeight",
+  "lineHeight",
+  "opacity",
+  "order",
+  "zIndex",
+  "zoom",
+]);
+
+export type DomStyles = Record<string, string | number | undefined>;
+
+/**
+ * Apply a React-style style object (camelCase keys, numbers as pixels) to an element
+ */
+export function applyStyles(
+  element: HTMLElement,
+  styles: DomStyles | object | undefined
+): void {
+  if (!styles) {
+    return;
+  }
+
+  Object.entries(styles).forEach(([property, value]) => {
+    if (value === undefined || value === null) {
+      return;
+    }
+
+    const cssValue =
+      typeof value === "number" && !UNITLESS_PROPERTIES.has(property)
+        ? `${value}px`
+        : String(value);
+    (element.style as unknown as Record<string, string>)[property] = cssValue;
+  });
+}
+
+/**
+ * Create an element with inline styles and optional text content
+ */
+export function createElement<K extends keyof HTMLElementTagNameMap>(
+  tagName: K,
+  styles?: DomStyles,
+  textContent?: string
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tagName);
+  applyStyles(element, styles);
+  if (textContent !== undefined) {
+    element.textContent = textContent;
+  }
+  return element;
+}
@@ -0,0 +1,55 @@
+"use client";
+
+/**
+ * Hydration-stable device detection for the App Clip views
+ * Server and first client render share the same defaults, real values are read after mount
+ */
+
+import { useEffect, useState } from "react";
+import {
+  DEFAULT_QR_CODE_SIZE,
+  DetectedDevice,
+  detectDevice,
+  getQrCodeSize,
+} from "../utils/device";
+
+export { getQrCodeSize };
+
+export interface DeviceDetectionResult extends DetectedDevice {
+  /** Whether detection ran, false during SSR and the hydration render */
+  isDetected: boolean;
+}
+
+/**
+ * Detect Android and iOS mobile devices after mount
+ */
+export function useDeviceDetection(): DeviceDetectionResult {
+  const [result, setResult] = useState<DeviceDetectionResult>({
+    isAndroid: false,
+    isIosMobile: false,
+    isDetected: false,
+  });
+
+  useEffect(() => {
+    setResult({ ...detectDevice(), isDetected: true });
+  }, []);
+
+  return result;
+}
+
+/**
+ * QR code size following the viewport width, the desktop size until mounted
+ */
+export function useQrCodeSize(): number {
+  const [size, setSize] = useState(DEFAULT_QR_CODE_SIZE);
+
+  useEffect(() => {
+    const updateSize = () => setSize(getQrCodeSize(window.innerWidth));
+
+    updateSize();
+    window.addEventListener("resize", updateSize);
+    return () => window.removeEventListener("resize", updateSize);
+  }, []);
+
+  return size;
+}
@@ -1,9 +1,15 @@
+'use client';
+
 /**
  * React hook for subscribing to Passage events
  */
 
-import { useEffect, useRef } from 'react';
+import { useContext, useEffect, useRef } from 'react';
 import { logger } from '../logger';
+import { PassageContext } from '../Provider';
+import { getDefaultClient, PassageClient } from '../core/client';
+import { PASSAGE_EVENT_PREFIX } from '../core/passageEvents';
+import type { PassageEventMap, PassageEventName } from '../core/passageEvents';
 import type {
   PassageSuccessData,
   PassageErrorData,
@@ -24,13 +30,36 @@ export interface PassageEventHandlers {
   onExit?: (data: { reason?: string }) => void;
   /** Called when the webview type changes */
   onWebviewChange?: (data: { webviewType: string }) => void;
+  /** Called when a session's connection status changes */
+  onStatusChange?: (data: PassageEventMap['statusChange']) => void;
+  /** Called when a session's socket lost its connection and is retrying */
+  onReconnecting?: (data: PassageEventMap['reconnecting']) => void;
+  /** Called when a session's socket is connected again */
+  onReconnected?: (data: PassageEventMap['reconnected']) => void;
+  /** Called when the App Clip QR code view opens */
+  onAppClipOpen?: (data: PassageEventMap['appClipOpen']) => void;
+  /** Called when the App Clip QR code view closes */
+  onAppClipClose?: (data: PassageEventMap['appClipClose']) => void;
+}
+
+export interface UsePassageEventsOptions {
+  /** Client whose sessions are followed, defaults to the enclosing Provider's client or the global client */
+  client?: PassageClient;
 }
 
 /**
  * Hook for subscribing to Passage events
+ * Listens on the client's event bus, so other clients on the page are not heard, and to
+ * passage:* window events for apps dispatching or relaying them
  * Automatically handles event listener lifecycle
  */
-export function usePassageEvents(handlers: PassageEventHandlers): void {
+export function usePassageEvents(
+  handlers: PassageEventHandlers,
+  options: UsePassageEventsOptions = {}
+): void {
+  const context = useContext(PassageContext);
+  const client = options.client ?? context?.client ?? getDefaultClient();
+
   // Store handlers in ref to avoid re-registering on every render
   const handlersRef = useRef(handlers);
 
@@ -40,133 +69,134 @@ export function usePassageEvents(handlers: PassageEventHandlers): void {
   });
 
   useEffect(() => {
-    if (typeof window === 'undefined') {
-      return;
-    }
-
-    // Create event listeners
-    const listeners: Array<{ event: string; handler: EventListener }> = [];
+    const { events } = client;
+    const unsubscribers: Array<() => void> = [];
+
+    // Events arrive on the client's bus, and as passage:* window events dispatched or relayed by the app
+    const subscribe = <E extends PassageEventName>(
+      eventName: E,
+      handler: (data: PassageEventMap[E]) => void
+    ) => {
+      unsubscribers.push(events.on(eventName, handler));
+
+      if (typeof window === 'undefined') {
+        return;
+      }
+      const type = `${PASSAGE_EVENT_PREFIX}${eventName}`;
+      const listener = ((e: Event) => {
+        handler((e as CustomEvent<PassageEventMap[E]>).detail);
+      }) as EventListener;
+      window.addEventListener(type, listener);
+      unsubscribers.push(() => window.removeEventListener(type, listener));
+    };
 
     // Connection complete event
     if (handlers.onConnectionComplete) {
-      const handleConnectionComplete = ((e: Event) => {
-        const customEvent = e as CustomEvent<PassageSuccessData>;
-        logger.debug('[usePassageEvents] Connection complete:', customEvent.detail);
-        handlersRef.current.onConnectionComplete?.(customEvent.detail);
-      }) as EventListener;
-      listeners.push({
-        event: 'passage:connectionComplete',
-        handler: handleConnectionComplete
+      subscribe('connectionComplete', (data) => {
+        logger.debug('[usePassageEvents] Connection complete:', data);
+        handlersRef.current.onConnectionComplete?.(data);
       });
     }
 
     // Connection error event
     if (handlers.onConnectionError) {
-      const handleConnectionError = ((e: Event) => {
-        const customEvent = e as CustomEvent<PassageErrorData>;
-        logger.debug('[usePassageEvents] Connection error:', customEvent.detail);
-        handlersRef.current.onConnectionError?.(customEvent.detail);
-      }) as EventListener;
-      listeners.push({
-        event: 'passage:connectionError',
-        handler: handleConnectionError
+      subscribe('connectionError', (data) => {
+        logger.debug('[usePassageEvents] Connection error:', data);
+        handlersRef.current.onConnectionError?.(data);
       });
     }
 
     // Data complete event
     if (handlers.onDataComplete) {
-      const handleDataComplete = ((e: Event) => {
-        const customEvent = e as CustomEvent<PassageDataResult>;
-        logger.debug('[usePassageEvents] Data complete:', customEvent.detail);
-        handlersRef.current.onDataComplete?.(customEvent.detail);
-      }) as EventListener;
-      listeners.push({
-        event: 'passage:dataComplete',
-        handler: handleDataComplete
+      subscribe('dataComplete', (data) => {
+        logger.debug('[usePassageEvents] Data complete:', data);
+        handlersRef.current.onDataComplete?.(data);
       });
     }
 
     // Prompt complete event
     if (handlers.onPromptComplete) {
-      const handlePromptComplete = ((e: Event) => {
-        const customEvent = e as CustomEvent<PassagePromptResponse>;
-        logger.debug('[usePassageEvents] Prompt complete:', customEvent.detail);
-        handlersRef.current.onPromptComplete?.(customEvent.detail);
-      }) as EventListener;
-      listeners.push({
-        event: 'passage:promptComplete',
-        handler: handlePromptComplete
+      subscribe('promptComplete', (data) => {
+        logger.debug('[usePassageEvents] Prompt complete:', data);
+        handlersRef.current.onPromptComplete?.(data);
       });
     }
 
     // Exit event
     if (handlers.onExit) {
-      const handleExit = ((e: Event) => {
-        const customEvent = e as CustomEvent<{ reason?: string }>;
-        logger.debug('[usePassageEvents] Exit:', customEvent.detail);
-        handlersRef.current.onExit?.(customEvent.detail);
-      }) as EventListener;
-      listeners.push({
-        event: 'passage:exit',
-        handler: handleExit
+      subscribe('exit', (data) => {
+        logger.debug('[usePassageEvents] Exit:', data);
+        handlersRef.current.onExit?.(data);
       });
     }
 
     // Webview change event
     if (handlers.onWebviewChange) {
-      const handleWebviewChange = ((e: Event) => {
-        const customEvent = e as CustomEvent<{ webviewType: string }>;
-        logger.debug('[usePassageEvents] Webview change:', customEvent.detail);
-        handlersRef.current.onWebviewChange?.(customEvent.detail);
-      }) as EventListener;
-      listeners.push({
-        event: 'passage:webviewChange',
-        handler: handleWebviewChange
+      subscribe('webviewChange', (data) => {
+        logger.debug('[usePassageEvents] Webview change:', data);
+        handlersRef.current.onWebviewChange?.(data);
       });
     }
 
-    // Add all event listeners
-    listeners.forEach(({ event, handler }) => {
-      window.addEventListener(event, handler);
-    });
+    // Status change event
+    if (handlers.onStatusChange) {
+      subscribe('statusChange', (data) => {
+        logger.debug('[usePassageEvents] Status change:', data);
+        handlersRef.current.onStatusChange?.(data);
+      });
+    }
+
+    // Reconnecting event
+    if (handlers.onReconnecting) {
+      subscribe('reconnecting', (data) => {
+        logger.debug('[usePassageEvents] Reconnecting:', data);
+        handlersRef.current.onReconnecting?.(data);
+      });
+    }
+
+    // Reconnected event
+    if (handlers.onReconnected) {
+      subscribe('reconnected', (data) => {
+        logger.debug('[usePassageEvents] Reconnected:', data);
+        handlersRef.current.onReconnected?.(data);
+      });
+    }
+
+    // App Clip open event
+    if (handlers.onAppClipOpen) {
+      subscribe('appClipOpen', (data) => {
+        logger.debug('[usePassageEvents] App clip open:', data);
+        handlersRef.current.onAppClipOpen?.(data);
+      });
+    }
+
+    // App Clip close event
+    if (handlers.onAppClipClose) {
+      subscribe('appClipClose', (data) => {
+        logger.debug('[usePassageEvents] App clip close:', data);
+        handlersRef.current.onAppClipClose?.(data);
+      });
+    }
 
     // Cleanup function
     return () => {
-      listeners.forEach(({ event, handler }) => {
-        window.removeEventListener(event, handler);
-      });
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
     };
   }, [
+    client,
     // Only re-register if specific handlers are added/removed
     !!handlers.onConnectionComplete,
     !!handlers.onConnectionError,
     !!handlers.onDataComplete,
     !!handlers.onPromptComplete,
     !!handlers.onExit,
-    !!handlers.onWebviewChange
+    !!handlers.onWebviewChange,
+    !!handlers.onStatusChange,
+    !!handlers.onReconnecting,
+    !!handlers.onReconnected,
+    !!handlers.onAppClipOpen,
+    !!handlers.onAppClipClose
   ]);
 }
 
-/**
- * Dispatch a Passage event programmatically
- * Useful for testing or triggering events from other parts of the app
- */
-export function dispatchPassageEvent<T = any>(
-  eventType:
-    | 'connectionComplete'
-    | 'connectionError'
-    | 'dataComplete'
-    | 'promptComplete'
-    | 'exit'
-    | 'webviewChange',
-  data: T
-): void {
-  if (typeof window === 'undefined') {
-    return;
-  }
-
-  const event = new CustomEvent(`passage:${eventType}`, { detail: data });
-  window.dispatchEvent(event);
-
-  logger.debug(`[dispatchPassageEvent] Dispatched ${eventType}:`, data);
-}
\ No newline at end of file
+export { dispatchPassageEvent } from '../core/passageEvents';
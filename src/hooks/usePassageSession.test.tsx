@@ -0,0 +1,60 @@
+// @vitest-environment jsdom
+import React, { act } from "react";
+import { createRoot, Root } from "react-dom/client";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  usePassageSession,
+  UsePassageSessionResult,
+} from "./usePassageSession";
+import { PassageProvider } from "../Provider";
+import { createPassageClient } from "../core/client";
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+let root: Root | null = null;
+
+async function render(element: React.ReactElement): Promise<void> {
+  const container = document.createElement("div");
+  document.body.appendChild(container);
+  root = createRoot(container);
+  await act(async () => {
+    root?.render(element);
+  });
+}
+
+describe("usePassageSession", () => {
+  afterEach(() => {
+    act(() => root?.unmount());
+    root = null;
+    document.body.innerHTML = "";
+  });
+
+  it("follows the sessions of the enclosing Provider's client", async () => {
+    const client = createPassageClient({
+      mode: "simulate",
+      simulation: { delay: 60000 },
+    });
+    const state: { current: UsePassageSessionResult | null } = {
+      current: null,
+    };
+    const Status = () => {
+      state.current = usePassageSession();
+      return null;
+    };
+
+    await render(
+      <PassageProvider client={client}>
+        <Status />
+      </PassageProvider>
+    );
+    expect(state.current?.session).toBeNull();
+
+    const session = await act(async () => client.open({}));
+    await vi.waitFor(() => expect(state.current?.status).toBe("pending"));
+
+    expect(state.current?.session).toBe(session);
+    expect(state.current?.isOpen).toBe(true);
+
+    await act(async () => session.close());
+  });
+});
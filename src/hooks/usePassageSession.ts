@@ -0,0 +1,178 @@
+"use client";
+
+/**
+ * React hook exposing the live state of a Passage session
+ */
+
+import { useContext, useEffect, useState } from "react";
+import { PassageContext } from "../Provider";
+import { getDefaultClient, PassageClient } from "../core/client";
+import type {
+  PassageSession,
+  PassageStatusHistoryEntry,
+} from "../core/session";
+import type { PassageSessionManager } from "../core/sessionManager";
+import type {
+  ConnectionStatus,
+  ConnectionUpdate,
+  PassageErrorData,
+  PassagePromptProgress,
+} from "../types";
+
+export interface UsePassageSessionOptions {
+  /** Client whose sessions are read, defaults to the enclosing Provider's client or the global client */
+  client?: PassageClient;
+  /** Session to follow, defaults to the most recently opened one */
+  connectionId?: string;
+}
+
+export interface UsePassageSessionResult {
+  /** Session handle, the last followed session stays here after it closes */
+  session: PassageSession | null;
+  status: ConnectionStatus | null;
+  connectionId: string | null;
+  /** Latest connection update received over the socket */
+  connection: ConnectionUpdate | null;
+  /** Prompt results so far, grouped by status */
+  prompts: PassagePromptProgress;
+  /** Error the session last reported */
+  error: PassageErrorData | null;
+  /** Statuses the session went through, oldest first */
+  statusHistory: PassageStatusHistoryEntry[];
+  /** Whether the connect modal or embed is open */
+  isOpen: boolean;
+  isAppClipOpen: boolean;
+  /** Whether the session is open and has not settled yet */
+  isRunning: boolean;
+}
+
+const NO_PROMPTS: PassagePromptProgress = {
+  prompts: [],
+  pending: [],
+  completed: [],
+  failed: [],
+};
+
+const EMPTY_RESULT: UsePassageSessionResult = {
+  session: null,
+  status: null,
+  connectionId: null,
+  connection: null,
+  prompts: NO_PROMPTS,
+  error: null,
+  statusHistory: [],
+  isOpen: false,
+  isAppClipOpen: false,
+  isRunning: false,
+};
+
+function findSession(
+  manager: PassageSessionManager,
+  connectionId?: string
+): PassageSession | null {
+  return connectionId
+    ? manager.getSession(connectionId)
+    : manager.getActiveSession();
+}
+
+function readSession(
+  manager: PassageSessionManager,
+  session: PassageSession | null,
+  previous: UsePassageSessionResult
+): UsePassageSessionResult {
+  if (!session) {
+    return EMPTY_RESULT;
+  }
+
+  const connectionId = session.connectionId ?? null;
+  const view = connectionId ? manager.getView(connectionId) : null;
+  const connection = connectionId
+    ? manager.getCurrentConnection(connectionId)
+    : null;
+  const isOpen = !session.isClosed && !!view?.isOpen;
+  const isAppClipOpen = !session.isClosed && !!view?.isAppClipOpen;
+
+  return {
+    session,
+    status: session.status,
+    connectionId,
+    // The socket is released on close, keep the last update it received
+    connection:
+      connection ?? (previous.session === session ? previous.connection : null),
+    prompts: session.promptProgress,
+    error: session.lastError,
+    statusHistory: session.statusHistory,
+    isOpen,
+    isAppClipOpen,
+    isRunning: (isOpen || isAppClipOpen) && !session.isSettled,
+  };
+}
+
+/**
+ * Hook following a session of the client as it runs
+ * Re-renders on status changes, prompt results, errors and when the UI opens or closes
+ *
+ * @example
+ * ```tsx
+ * const { status, isRunning, prompts } = usePassageSession();
+ *
+ * return (
+ *   <button disabled={isRunning}>
+ *     {isRunning ? `Connecting (${status})` : "Connect"}
+ *   </button>
+ * );
+ * ```
+ */
+export function usePassageSession(
+  options: UsePassageSessionOptions = {}
+): UsePassageSessionResult {
+  const context = useContext(PassageContext);
+  const client = options.client ?? context?.client ?? getDefaultClient();
+  const manager = client.getSessionManager();
+  const { connectionId } = options;
+
+  const [session, setSession] = useState<PassageSession | null>(() =>
+    findSession(manager, connectionId)
+  );
+  const [result, setResult] = useState<UsePassageSessionResult>(() =>
+    readSession(manager, session, EMPTY_RESULT)
+  );
+
+  // Follow the newest session, the previous one is kept once it closes
+  useEffect(() => {
+    const update = () => {
+      const next = findSession(manager, connectionId);
+      setSession((current) => next ?? current);
+      setResult((previous) =>
+        readSession(manager, next ?? previous.session, previous)
+      );
+    };
+
+    update();
+    return manager.subscribe(update);
+  }, [manager, connectionId]);
+
+  // Session events that do not change the view state
+  useEffect(() => {
+    if (!session) {
+      return;
+    }
+
+    const update = () =>
+      setResult((previous) => readSession(manager, session, previous));
+    const unsubscribers = [
+      session.on("statusChange", update),
+      session.on("promptProgress", update),
+      session.on("connectionError", update),
+      session.on("connectionComplete", update),
+      session.on("close", update),
+    ];
+    update();
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [manager, session]);
+
+  return result;
+}
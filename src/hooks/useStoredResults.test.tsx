@@ -0,0 +1,56 @@
+// @vitest-environment jsdom
+import React, { act } from "react";
+import { createRoot, Root } from "react-dom/client";
+import { afterEach, describe, expect, it } from "vitest";
+import { useStoredResults, UseStoredResultsResult } from "./useStoredResults";
+import { PassageProvider } from "../Provider";
+import { createPassageClient } from "../core/client";
+import { PASSAGE_DATA_RESULTS_KEY } from "../config";
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+let root: Root | null = null;
+
+// Renders and lets the effects' storage reads settle
+async function render(element: React.ReactElement): Promise<void> {
+  const container = document.createElement("div");
+  document.body.appendChild(container);
+  root = createRoot(container);
+  await act(async () => {
+    root?.render(element);
+  });
+}
+
+describe("useStoredResults", () => {
+  afterEach(() => {
+    act(() => root?.unmount());
+    root = null;
+    window.localStorage.clear();
+  });
+
+  it("reads the results persisted before the Provider configured storage", async () => {
+    window.localStorage.setItem(
+      PASSAGE_DATA_RESULTS_KEY,
+      JSON.stringify([
+        { connectionId: "connection-1", timestamp: new Date().toISOString() },
+      ])
+    );
+    const client = createPassageClient({});
+    const stored: { current: UseStoredResultsResult | null } = {
+      current: null,
+    };
+    const Results = () => {
+      stored.current = useStoredResults();
+      return null;
+    };
+
+    await render(
+      <PassageProvider client={client} config={{ storeResults: true }}>
+        <Results />
+      </PassageProvider>
+    );
+
+    expect(stored.current?.results).toHaveLength(1);
+    expect(stored.current?.latest?.connectionId).toBe("connection-1");
+  });
+});
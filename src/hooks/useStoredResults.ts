@@ -0,0 +1,85 @@
+"use client";
+
+/**
+ * React hook for reading persisted connection results
+ */
+
+import { useCallback, useContext, useEffect, useState } from "react";
+import { PassageContext } from "../Provider";
+import { getDefaultClient, PassageClient } from "../core/client";
+import { logger } from "../logger";
+import type { PassageStoredDataResult } from "../types";
+
+export interface UseStoredResultsOptions {
+  /** Client whose results are read, defaults to the enclosing Provider's client or the global client */
+  client?: PassageClient;
+}
+
+export interface UseStoredResultsResult {
+  /** Stored results, oldest first */
+  results: PassageStoredDataResult[];
+  /** Most recently stored result */
+  latest: PassageStoredDataResult | null;
+  /** Loading state of the initial read */
+  isLoading: boolean;
+  /** Error state */
+  error: Error | null;
+  /** Re-read the results from storage */
+  refresh: () => Promise<void>;
+  /** Remove every stored result */
+  clear: () => Promise<void>;
+}
+
+/**
+ * Hook for reading results stored with the `storeResults` configuration
+ * Updates automatically when a session completes or results are cleared
+ */
+export function useStoredResults(
+  options: UseStoredResultsOptions = {}
+): UseStoredResultsResult {
+  const context = useContext(PassageContext);
+  const client = options.client ?? context?.client ?? getDefaultClient();
+  const [results, setResults] = useState<PassageStoredDataResult[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setResults(await client.getStoredResults());
+      setError(null);
+    } catch (err) {
+      logger.error("[useStoredResults] Failed to read results:", err);
+      setError(
+        err instanceof Error ? err : new Error("Failed to read stored results")
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [client]);
+
+  const clear = useCallback(async () => {
+    try {
+      await client.clearStoredResults();
+    } catch (err) {
+      logger.error("[useStoredResults] Failed to clear results:", err);
+      setError(
+        err instanceof Error ? err : new Error("Failed to clear stored results")
+      );
+    }
+  }, [client]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    refresh();
+    return client.getResultStore().subscribe(setResults);
+  }, [client, refresh]);
+
+  return {
+    results,
+    latest: results.length > 0 ? results[results.length - 1] : null,
+    isLoading,
+    error,
+    refresh,
+    clear,
+  };
+}
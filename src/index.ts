@@ -1,5 +1,73 @@
 // Core Functions
-export { configure, open, close, generateAppClip, openAppClip, getConfig } from "./core/passage";
+export {
+  configure,
+  open,
+  close,
+  getSessions,
+  resumeSession,
+  generateAppClip,
+  openAppClip,
+  getConfig,
+  getApiClient,
+  getStoredResults,
+  clearStoredResults,
+  getData,
+} from "./core/passage";
+export { PassageClient, createPassageClient, getDefaultClient } from "./core/client";
+export type { PassageClientOptions } from "./core/client";
+export {
+  PassageConfigError,
+  resolveConfig,
+  validateConfig,
+} from "./core/environment";
+export type { ResolvedPassageConfig } from "./core/environment";
+export { PassageSession, SESSION_EXITED_CODE } from "./core/session";
+export {
+  SESSION_TRANSITIONS,
+  TERMINAL_SESSION_STATES,
+  canTransition,
+  isTerminalSessionState,
+} from "./core/sessionState";
+export type {
+  PassageSessionState,
+  PassageSessionStateChange,
+} from "./core/sessionState";
+export type { PersistedPassageSession } from "./core/sessionPersistence";
+export { PassageSessionManager } from "./core/sessionManager";
+export type { PassageViewState } from "./core/sessionManager";
+export { Passage } from "./vanilla";
+export {
+  definePassageElements,
+  PASSAGE_CONNECT_ELEMENT,
+  PASSAGE_APP_CLIP_ELEMENT,
+  PASSAGE_ELEMENT_EVENTS,
+} from "./dom/elements";
+export type {
+  PassageConnectElement,
+  PassageAppClipElement,
+  DefinePassageElementsOptions,
+} from "./dom/elements";
+export type {
+  PassageSessionEvent,
+  PassageSessionEventMap,
+  PassageSessionCallbacks,
+  PassageSessionEventRecord,
+  PassageStatusHistoryEntry,
+} from "./core/session";
+export {
+  PassageResultStore,
+  createResultStorage,
+  createMemoryStorage,
+  createIndexedDBStorage,
+} from "./core/resultStore";
+export { createFetchTokenProvider } from "./core/tokenProvider";
+export type { FetchTokenProviderOptions } from "./core/tokenProvider";
+export { PassageApiClient, PassageApiError, isPassageApiError } from "./core/apiClient";
+export type {
+  PassageApiClientOptions,
+  PassageRequestOptions,
+  PassageHttpMethod,
+} from "./core/apiClient";
 export * from "./core/shortcode";
 export * from "./core/intentTokenLink";
 
@@ -17,25 +85,97 @@ export type { AppClipPageProps } from "./components/AppClipPage";
 export { usePassage } from "./usePassage";
 export { useIntentToken } from "./hooks/useIntentToken";
 export { useShortCode } from "./hooks/useShortCode";
+export { useStoredResults } from "./hooks/useStoredResults";
+export type {
+  UseStoredResultsOptions,
+  UseStoredResultsResult,
+} from "./hooks/useStoredResults";
+export { usePassageSession } from "./hooks/usePassageSession";
+export type {
+  UsePassageSessionOptions,
+  UsePassageSessionResult,
+} from "./hooks/usePassageSession";
 export { usePassageEvents, dispatchPassageEvent } from "./hooks/usePassageEvents";
+export type {
+  PassageEventHandlers,
+  UsePassageEventsOptions,
+} from "./hooks/usePassageEvents";
+export { PassageEventBus } from "./core/eventBus";
+export { PASSAGE_EVENT_PREFIX } from "./core/passageEvents";
+export type { PassageEventMap, PassageEventName } from "./core/passageEvents";
 
 // Intent Token Utilities
 export * from "./utils/intentToken";
 
 // WebSocket Manager
 export { WebSocketManager } from "./websocket-manager";
+export type {
+  WebSocketManagerContext,
+  WebSocketConnectOptions,
+  WebSocketListenerOptions,
+} from "./websocket-manager";
+export { SocketIoTransport } from "./socket-io-transport";
+export { SimulatedTransport } from "./simulated-transport";
+export { TRANSPORT_LIFECYCLE_EVENTS } from "./transport";
+export type {
+  PassageTransport,
+  PassageTransportConnectOptions,
+  PassageTransportFactory,
+  PassageTransportListener,
+  PassageTransportState,
+} from "./transport";
+export {
+  normalizeSocketEvent,
+  isConnectionStatus,
+  CONNECTION_STATUSES,
+  RAW_SOCKET_EVENTS,
+} from "./socket-events";
+export type {
+  PassageSocketEvent,
+  PassageSocketEventMap,
+  PassageSocketEventName,
+  PassageSocketStatusEvent,
+  PassageSocketPromptEvent,
+  PassageSocketDoneEvent,
+  PassageSocketCommandEvent,
+  PassageSocketErrorEvent,
+  PassageSocketConnectionState,
+  PassageSocketReconnectingEvent,
+  PassageSocketReconnectedEvent,
+  PassageSocketReconnectFailedEvent,
+  PassageCommandType,
+  PassageCommandAck,
+  PassageCommandOptions,
+  PassageOutgoingCommand,
+} from "./socket-events";
 
 // Types
 export type {
   PassageConfig,
+  PassageEnvironment,
+  PassageEnvironmentName,
+  PassageEnvironmentUrls,
   PassageOpenOptions,
+  PassageTokenProvider,
+  PassageTokenExpiringEvent,
   GenerateAppClipOptions,
   GenerateAppClipResponse,
   OpenAppClipOptions,
   PassagePrompt,
   PassagePromptResponse,
+  PassagePromptResult,
+  PassagePromptProgress,
   PassageDataResult,
+  PassageDataOptions,
   PassageStoredDataResult,
+  PassageResultStorageAdapter,
+  PassageResultStorageType,
+  PassageResultStoreOptions,
+  PassageReconnectionOptions,
+  PassagePollingFallbackOptions,
+  PassageMode,
+  PassageSimulationOptions,
+  PassageSimulationOutcome,
   PassageSuccessData,
   PassageErrorData,
   PassageContextValue,
@@ -52,9 +192,16 @@ export {
   DEFAULT_API_BASE_URL,
   DEFAULT_SOCKET_URL,
   DEFAULT_SOCKET_NAMESPACE,
+  DEFAULT_API_TIMEOUT,
+  DEFAULT_TOKEN_EXPIRY_WARNING,
+  DEFAULT_ENVIRONMENT,
+  PASSAGE_ENVIRONMENTS,
   CONNECT_PATH,
   CONFIG_DEFAULTS,
   PASSAGE_DATA_RESULTS_KEY,
+  PASSAGE_ACTIVE_SESSION_KEY,
+  CONNECTIONS_PATH,
+  DEFAULT_RESULT_STORE_MAX_ENTRIES,
 } from "./config";
 
 // Logger
@@ -69,7 +216,7 @@ export type {
 } from "./logger";
 
 // Analytics
-export { analytics, ANALYTICS_EVENTS } from "./analytics";
+export { analytics, AnalyticsManager, ANALYTICS_EVENTS } from "./analytics";
 export type {
   AnalyticsEvent,
   AnalyticsEventType,
@@ -80,8 +80,9 @@ class ConsoleTransport implements LoggerTransport {
 class HttpTransport implements LoggerTransport {
   private config: HttpTransportConfig;
   private queue: SDKLogEntry[] = [];
-  private flushTimer?: number;
+  private flushTimer?: ReturnType<typeof setTimeout>;
   private isProcessing: boolean = false;
+  private started: boolean = false;
   private sessionId: string | null;
 
   constructor(config: HttpTransportConfig) {
@@ -94,6 +95,15 @@ class HttpTransport implements LoggerTransport {
     };
 
     this.sessionId = this.extractSessionId();
+  }
+
+  // Start flushing on the first log rather than at construction, keeps imports free of side effects
+  private start(): void {
+    if (this.started || typeof window === "undefined") {
+      return;
+    }
+
+    this.started = true;
     this.setupEventHandlers();
     this.scheduleFlush();
   }
@@ -147,7 +157,7 @@ class HttpTransport implements LoggerTransport {
       clearTimeout(this.flushTimer);
     }
 
-    this.flushTimer = window.setTimeout(() => {
+    this.flushTimer = setTimeout(() => {
       this.flush();
       this.scheduleFlush();
     }, this.config.flushInterval);
@@ -208,6 +218,8 @@ class HttpTransport implements LoggerTransport {
     message: string,
     metadataOrContext?: string | Record<string, unknown> | Error | unknown
   ): void {
+    this.start();
+
     const entry = this.createLogEntry(level, message, metadataOrContext);
     this.queue.push(entry);
 
@@ -283,7 +295,8 @@ class Logger {
 
   constructor(config: LoggerConfig = {}) {
     this.config = {
-      enableHttpTransport: true, // Default to enabled
+      // Default to enabled in browsers only
+      enableHttpTransport: typeof window !== "undefined",
       httpTransport: {
         endpoint: buildLoggerEndpoint(DEFAULT_UI_BASE_URL),
         sdkName: "web-react",
@@ -302,7 +315,7 @@ class Logger {
     }
   }
 
-  // Update the base URL used to build the logger endpoint (e.g., https://ui.getpassage.ai)
+  // Update the base URL used to build the logger endpoint (e.g., https://ui.runpassage.ai)
   setWebBaseUrl(webBaseUrl: string): void {
     try {
       const newEndpoint = buildLoggerEndpoint(webBaseUrl);
@@ -351,6 +364,23 @@ class Logger {
     this.transports = this.transports.filter((t) => t !== transport);
   }
 
+  // Turn shipping logs to the logger endpoint off, or back on
+  setHttpTransportEnabled(enabled: boolean): void {
+    this.config.enableHttpTransport = enabled;
+
+    const existing = this.transports.find(
+      (transport) => transport instanceof HttpTransport
+    );
+    if (!enabled) {
+      if (existing) {
+        this.removeTransport(existing);
+      }
+      return;
+    }
+
+    this.setupDefaultHttpTransport();
+  }
+
   setEnabled(enabled: boolean): void {
     this.enabled = enabled;
   }
@@ -501,7 +531,8 @@ class Logger {
 function getDefaultLoggerConfig(): LoggerConfig {
   // Try to get configuration from environment or window
   const config: LoggerConfig = {
-    enableHttpTransport: true,
+    // Only ship logs from browsers, server-side imports (e.g. the server entry) log to the console
+    enableHttpTransport: typeof window !== "undefined",
     httpTransport: {
       endpoint: buildLoggerEndpoint(DEFAULT_UI_BASE_URL),
       sdkName: "web-react-js",
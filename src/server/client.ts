@@ -0,0 +1,110 @@
+/**
+ * Server-side Passage client
+ * Mints intent tokens and intent token links with a secret key, never ship it to the browser
+ */
+
+import { PassageApiClient } from "../core/apiClient";
+import { buildIntentTokenRequest } from "../core/intentTokenRequest";
+import { INTENT_TOKEN_PATH, INTENT_TOKEN_LINKS_PATH } from "../config";
+import type { GenerateAppClipOptions, GenerateAppClipResponse } from "../types";
+import type {
+  CreateIntentTokenLinkRequest,
+  CreateIntentTokenLinkResponse,
+} from "../core/intentTokenLink";
+
+export interface PassageServerConfig {
+  /**
+   * Secret key from the Passage dashboard
+   */
+  secretKey: string;
+
+  /**
+   * API URL for backend API calls
+   * @default "https://api.runpassage.ai"
+   */
+  apiUrl?: string;
+
+  /**
+   * Request timeout in milliseconds
+   * @default 30000
+   */
+  timeout?: number;
+}
+
+export class PassageServer {
+  private apiClient: PassageApiClient;
+
+  constructor(config: PassageServerConfig) {
+    if (typeof window !== "undefined") {
+      throw new Error(
+        "@getpassage/react-js/server must only be used on the server, it requires your secret key."
+      );
+    }
+
+    if (!config?.secretKey) {
+      throw new Error(
+        "secretKey is required to create a Passage server client."
+      );
+    }
+
+    this.apiClient = new PassageApiClient({
+      baseUrl: config.apiUrl,
+      secretKey: config.secretKey,
+      timeout: config.timeout,
+    });
+  }
+
+  /**
+   * Create an intent token
+   * Accepts the same options as generateAppClip() in the browser
+   */
+  async createIntentToken(
+    options: GenerateAppClipOptions
+  ): Promise<GenerateAppClipResponse> {
+    return this.apiClient.post<GenerateAppClipResponse>(INTENT_TOKEN_PATH, {
+      authenticate: true,
+      errorMessage: "Failed to create intent token",
+      body: buildIntentTokenRequest(options),
+    });
+  }
+
+  /**
+   * Create an intent token link with shortcode
+   */
+  async createIntentTokenLink(
+    data: CreateIntentTokenLinkRequest
+  ): Promise<CreateIntentTokenLinkResponse> {
+    const result = await this.apiClient.post<CreateIntentTokenLinkResponse>(
+      INTENT_TOKEN_LINKS_PATH,
+      {
+        authenticate: true,
+        errorMessage: "Failed to create intent token link",
+        body: data,
+      }
+    );
+
+    // API may return shortCode instead of shortToken
+    if (result.shortCode && !result.shortToken) {
+      result.shortToken = result.shortCode;
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Create a server-side Passage client
+ *
+ * @example
+ * ```ts
+ * import { createPassageServer } from '@getpassage/react-js/server';
+ *
+ * const passage = createPassageServer({ secretKey: process.env.PASSAGE_SECRET_KEY! });
+ * const { intentToken } = await passage.createIntentToken({ integrationId: 'kroger' });
+ * ```
+ */
+export function createPassageServer(
+  config: PassageServerConfig
+): PassageServer {
+  return new PassageServer(config);
+}
@@ -0,0 +1,153 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createExpressTokenHandler, createTokenHandler } from "./handlers";
+import { PassageServer } from "./client";
+import { PassageApiError } from "../core/apiClient";
+import { logger } from "../logger";
+import type { GenerateAppClipResponse } from "../types";
+
+const TOKEN_RESPONSE: GenerateAppClipResponse = {
+  intentToken: "intent-token",
+  connectionId: "connection-1",
+  url: "https://ui.runpassage.ai/connect",
+  appClipUrl: "https://clip.trypassage.ai/example?shortCode=abc123",
+  shortToken: "abc123",
+  debug: false,
+  record: false,
+  clearAllCookies: false,
+};
+
+function createServer(): PassageServer {
+  return new PassageServer({ secretKey: "sk-live-test" });
+}
+
+function createRequest(body: unknown = {}): Request {
+  return new Request("https://app.example.com/api/passage-token", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+}
+
+describe("createTokenHandler", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("mints a token with the options built for the request", async () => {
+    const server = createServer();
+    const createIntentToken = vi
+      .spyOn(server, "createIntentToken")
+      .mockResolvedValue(TOKEN_RESPONSE);
+    const handler = createTokenHandler({
+      server,
+      getOptions: async (request) => {
+        const { integrationId } = await request.json();
+        return { integrationId, userId: "user-1" };
+      },
+    });
+
+    const response = await handler(
+      createRequest({ integrationId: "kroger", userId: "someone-else" })
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Cache-Control")).toBe("no-store");
+    expect(await response.json()).toEqual(TOKEN_RESPONSE);
+    expect(createIntentToken).toHaveBeenCalledWith({
+      integrationId: "kroger",
+      userId: "user-1",
+    });
+  });
+
+  it("answers 401 when getOptions rejects the request", async () => {
+    const server = createServer();
+    const createIntentToken = vi.spyOn(server, "createIntentToken");
+    const handler = createTokenHandler({ server, getOptions: () => null });
+
+    const response = await handler(createRequest());
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({
+      error: "Unauthorized",
+      code: "UNAUTHORIZED",
+    });
+    expect(createIntentToken).not.toHaveBeenCalled();
+  });
+
+  it("hides Passage API errors from the browser", async () => {
+    vi.spyOn(logger, "error").mockImplementation(() => undefined);
+    const server = createServer();
+    vi.spyOn(server, "createIntentToken").mockRejectedValue(
+      new PassageApiError({
+        message: "Integration kroger is disabled for org 42",
+        status: 403,
+        errorCode: "INTEGRATION_DISABLED",
+        method: "POST",
+        url: "https://api.runpassage.ai/intent-token",
+      })
+    );
+    const handler = createTokenHandler({
+      server,
+      getOptions: () => ({ integrationId: "kroger" }),
+    });
+
+    const response = await handler(createRequest());
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({
+      error: "Failed to create intent token",
+      code: "TOKEN_HANDLER_ERROR",
+    });
+    expect(logger.error).toHaveBeenCalled();
+  });
+
+  it("answers 500 when building the options fails", async () => {
+    vi.spyOn(logger, "error").mockImplementation(() => undefined);
+    const handler = createTokenHandler({
+      server: createServer(),
+      getOptions: () => {
+        throw new Error("session store unavailable");
+      },
+    });
+
+    const response = await handler(createRequest());
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({
+      error: "Failed to create intent token",
+      code: "TOKEN_HANDLER_ERROR",
+    });
+  });
+
+  it("requires a secret key when no server is given", () => {
+    expect(() =>
+      createTokenHandler({ getOptions: () => ({ integrationId: "kroger" }) })
+    ).toThrow("secretKey is required");
+  });
+});
+
+describe("createExpressTokenHandler", () => {
+  it("sends the status and body through the response", async () => {
+    const server = createServer();
+    vi.spyOn(server, "createIntentToken").mockResolvedValue(TOKEN_RESPONSE);
+    const handler = createExpressTokenHandler({
+      server,
+      getOptions: (request) => ({
+        integrationId: "kroger",
+        userId: request.userId as string,
+      }),
+    });
+    const response = {
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+    };
+
+    await handler({ userId: "user-1" }, response);
+
+    expect(response.status).toHaveBeenCalledWith(200);
+    expect(response.json).toHaveBeenCalledWith(TOKEN_RESPONSE);
+    expect(server.createIntentToken).toHaveBeenCalledWith({
+      integrationId: "kroger",
+      userId: "user-1",
+    });
+  });
+});
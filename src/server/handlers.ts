@@ -0,0 +1,167 @@
+/**
+ * Request handlers minting intent tokens for the browser tokenProvider
+ * createTokenHandler targets Fetch API routes (Next.js, Remix, Hono), createExpressTokenHandler targets Express
+ */
+
+import { isPassageApiError } from "../core/apiClient";
+import { logger } from "../logger";
+import { PassageServer, PassageServerConfig } from "./client";
+import type { GenerateAppClipOptions } from "../types";
+
+export interface PassageTokenHandlerOptions<TRequest>
+  extends Partial<PassageServerConfig> {
+  /**
+   * Server client to use, created from secretKey/apiUrl when omitted
+   */
+  server?: PassageServer;
+
+  /**
+   * Build the intent token options for a request, e.g. from the signed in user
+   * The token is minted with your secret key, so never spread the request body into the options,
+   * read at most whitelisted fields from it
+   * Return null to reject the request with 401
+   */
+  getOptions: (
+    request: TRequest
+  ) => GenerateAppClipOptions | null | Promise<GenerateAppClipOptions | null>;
+}
+
+interface PassageTokenHandlerResult {
+  status: number;
+  body: unknown;
+}
+
+/** Minimal Express request shape, avoids depending on express types */
+export interface ExpressLikeRequest {
+  body?: unknown;
+  [key: string]: unknown;
+}
+
+/** Minimal Express response shape, avoids depending on express types */
+export interface ExpressLikeResponse {
+  status(code: number): ExpressLikeResponse;
+  json(body: unknown): unknown;
+}
+
+function getServer<TRequest>(
+  options: PassageTokenHandlerOptions<TRequest>
+): PassageServer {
+  if (options.server) {
+    return options.server;
+  }
+
+  return new PassageServer({
+    secretKey: options.secretKey as string,
+    apiUrl: options.apiUrl,
+    timeout: options.timeout,
+  });
+}
+
+/**
+ * Mint a token for a request and describe the HTTP response to send
+ */
+async function handleTokenRequest<TRequest>(
+  server: PassageServer,
+  options: PassageTokenHandlerOptions<TRequest>,
+  request: TRequest
+): Promise<PassageTokenHandlerResult> {
+  try {
+    const tokenOptions = await options.getOptions(request);
+    if (!tokenOptions) {
+      return {
+        status: 401,
+        body: { error: "Unauthorized", code: "UNAUTHORIZED" },
+      };
+    }
+
+    return { status: 200, body: await server.createIntentToken(tokenOptions) };
+  } catch (error) {
+    // Keep the details on the server, the browser only learns that minting failed
+    if (isPassageApiError(error)) {
+      logger.error("[PassageTokenHandler] Passage API request failed:", {
+        status: error.status,
+        code: error.errorCode,
+        message: error.message,
+      });
+      return {
+        status: 502,
+        body: {
+          error: "Failed to create intent token",
+          code: "TOKEN_HANDLER_ERROR",
+        },
+      };
+    }
+
+    logger.error("[PassageTokenHandler] Failed to create intent token:", error);
+    return {
+      status: 500,
+      body: {
+        error: "Failed to create intent token",
+        code: "TOKEN_HANDLER_ERROR",
+      },
+    };
+  }
+}
+
+/**
+ * Create a Fetch API handler returning `{ intentToken, connectionId, ... }`
+ *
+ * @example
+ * ```ts
+ * // app/api/passage-token/route.ts
+ * const INTEGRATIONS = ['kroger', 'airbnb'];
+ *
+ * export const POST = createTokenHandler({
+ *   secretKey: process.env.PASSAGE_SECRET_KEY!,
+ *   getOptions: async (request) => {
+ *     const user = await getSignedInUser(request);
+ *     const { integrationId } = await request.json();
+ *     if (!user || !INTEGRATIONS.includes(integrationId)) {
+ *       return null;
+ *     }
+ *     // Everything else comes from the server, not from the request body
+ *     return { integrationId, userId: user.id };
+ *   },
+ * });
+ * ```
+ */
+export function createTokenHandler(
+  options: PassageTokenHandlerOptions<Request>
+): (request: Request) => Promise<Response> {
+  const server = getServer(options);
+
+  return async (request) => {
+    const result = await handleTokenRequest(server, options, request);
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    });
+  };
+}
+
+/**
+ * Create an Express handler returning `{ intentToken, connectionId, ... }`
+ *
+ * @example
+ * ```ts
+ * app.post('/api/passage-token', express.json(), createExpressTokenHandler({
+ *   secretKey: process.env.PASSAGE_SECRET_KEY!,
+ *   getOptions: (req) => ({ integrationId: 'kroger', userId: req.user?.id }),
+ * }));
+ * ```
+ */
+export function createExpressTokenHandler<
+  TRequest extends ExpressLikeRequest = ExpressLikeRequest,
+>(
+  options: PassageTokenHandlerOptions<TRequest>
+): (request: TRequest, response: ExpressLikeResponse) => Promise<void> {
+  const server = getServer(options);
+
+  return async (request, response) => {
+    const result = await handleTokenRequest(server, options, request);
+    response.status(result.status).json(result.body);
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Server entry point, import from "@getpassage/react-js/server"
+ * Node-only: mints intent tokens and links with a secret key
+ */
+
+export { PassageServer, createPassageServer } from "./client";
+export type { PassageServerConfig } from "./client";
+export { createTokenHandler, createExpressTokenHandler } from "./handlers";
+export type {
+  PassageTokenHandlerOptions,
+  ExpressLikeRequest,
+  ExpressLikeResponse,
+} from "./handlers";
+export { PassageApiError, isPassageApiError } from "../core/apiClient";
+export { buildIntentTokenRequest } from "../core/intentTokenRequest";
+
+export type {
+  GenerateAppClipOptions,
+  GenerateAppClipResponse,
+  PassagePrompt,
+} from "../types";
+export type {
+  CreateIntentTokenLinkRequest,
+  CreateIntentTokenLinkResponse,
+} from "../core/intentTokenLink";
@@ -0,0 +1,154 @@
+import { decodeIntentToken } from "./utils/intentTokenPayload";
+import {
+  SIMULATED_CONNECTION_ID,
+  createSimulatedConnection,
+  resolveSimulation,
+} from "./core/simulation";
+import type {
+  PassageTransport,
+  PassageTransportConnectOptions,
+  PassageTransportListener,
+  PassageTransportState,
+} from "./transport";
+import type {
+  ConnectionStatus,
+  ConnectionUpdate,
+  PassageSimulationOptions,
+} from "./types";
+
+type SimulationStep = { event: string; data?: any };
+
+/**
+ * Transport of simulate mode, plays a scripted session instead of connecting to a server
+ */
+export class SimulatedTransport implements PassageTransport {
+  readonly id = "simulated";
+  private currentState: PassageTransportState = "idle";
+  private listeners: Map<string, Set<PassageTransportListener>> = new Map();
+  private timers: ReturnType<typeof setTimeout>[] = [];
+
+  constructor(private simulation: PassageSimulationOptions = {}) {}
+
+  get state(): PassageTransportState {
+    return this.currentState;
+  }
+
+  connect(options: PassageTransportConnectOptions): void {
+    this.clearTimers();
+    this.currentState = "connecting";
+
+    const { delay } = resolveSimulation(this.simulation);
+    const steps = this.buildScript(getConnectionId(options.query.intentToken));
+
+    this.schedule(0, () => {
+      this.currentState = "connected";
+      this.notify("connect", []);
+      this.notify("welcome", [{ simulated: true }]);
+    });
+    steps.forEach((step, index) => {
+      this.schedule(index * delay, () => this.notify(step.event, [step.data]));
+    });
+  }
+
+  disconnect(): void {
+    this.clearTimers();
+    this.currentState = "disconnected";
+    this.listeners.clear();
+  }
+
+  on(event: string, listener: PassageTransportListener): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  // Commands are acknowledged right away, cancel also stops the script
+  emit(event: string, ...args: any[]): void {
+    const ack = args[args.length - 1];
+    if (event !== "command" || typeof ack !== "function") {
+      return;
+    }
+
+    const command = args[0] ?? {};
+    if (command.type === "cancel") {
+      this.clearTimers();
+    }
+    this.schedule(0, () =>
+      ack({
+        success: true,
+        data: command.type === "ping" ? { pong: true } : undefined,
+      })
+    );
+  }
+
+  // The server events of a session taking the configured branch
+  private buildScript(connectionId: string): SimulationStep[] {
+    const simulation = resolveSimulation(this.simulation);
+    const update = (status: ConnectionStatus): SimulationStep => {
+      const connection: ConnectionUpdate = {
+        id: connectionId,
+        status,
+        promptResults: [],
+      };
+      return { event: "connection", data: connection };
+    };
+
+    if (simulation.outcome === "rejected") {
+      return [update("pending"), update("connecting"), update("rejected")];
+    }
+
+    const running = [
+      update("pending"),
+      update("connecting"),
+      update("connected"),
+      update("data_processing"),
+    ];
+
+    if (simulation.outcome === "error") {
+      return [...running, update("error")];
+    }
+
+    const finished = createSimulatedConnection(simulation, connectionId);
+    return [
+      ...running,
+      ...finished.promptResults.map((prompt) => ({
+        event: "PROMPT_COMPLETE",
+        data: prompt,
+      })),
+      { event: "connection", data: finished },
+      {
+        event: "command",
+        data: {
+          type: "done",
+          args: { success: true, connectionId, data: finished.data },
+        },
+      },
+    ];
+  }
+
+  private schedule(delay: number, step: () => void): void {
+    this.timers.push(setTimeout(step, delay));
+  }
+
+  private clearTimers(): void {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers = [];
+  }
+
+  private notify(event: string, args: any[]): void {
+    this.listeners.get(event)?.forEach((listener) => listener(...args));
+  }
+}
+
+function getConnectionId(intentToken?: string): string {
+  if (!intentToken) {
+    return SIMULATED_CONNECTION_ID;
+  }
+  return decodeIntentToken(intentToken)?.sessionId || SIMULATED_CONNECTION_ID;
+}
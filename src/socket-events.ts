@@ -0,0 +1,340 @@
+/**
+ * Socket event protocol
+ * Maps the raw socket.io events (and their legacy shapes) to validated canonical events
+ */
+
+import type {
+  ConnectionPromptResultStatus,
+  ConnectionStatus,
+  ConnectionUpdate,
+} from "./types";
+
+export const CONNECTION_STATUSES: readonly ConnectionStatus[] = [
+  "pending",
+  "connecting",
+  "connected",
+  "rejected",
+  "data_processing",
+  "data_available",
+  "error",
+];
+
+const PROMPT_RESULT_STATUSES: readonly ConnectionPromptResultStatus[] = [
+  "completed",
+  "failed",
+  "pending",
+];
+
+export interface PassageSocketStatusEvent {
+  status: ConnectionStatus;
+  message?: string;
+  timestamp?: string;
+  metadata?: any;
+}
+
+export interface PassageSocketPromptEvent {
+  name: string;
+  promptId?: string;
+  status: ConnectionPromptResultStatus;
+  result?: any;
+}
+
+export interface PassageSocketDoneEvent {
+  success: boolean;
+  connectionId?: string;
+  data?: any;
+  error?: string;
+  /**
+   * "command" for command{type:'done'}, "legacy" for the bare done event,
+   * "poll" when the polling fallback saw the connection finish
+   */
+  source: "command" | "legacy" | "poll";
+}
+
+export interface PassageSocketCommandEvent {
+  type: string;
+  args?: Record<string, any>;
+}
+
+export interface PassageSocketErrorEvent {
+  message: string;
+  data?: any;
+}
+
+/**
+ * Commands the host can send to a running session, other types are forwarded as is
+ */
+export type PassageCommandType =
+  | "cancel"
+  | "requestResources"
+  | "acknowledgeData"
+  | "ping"
+  | (string & {});
+
+/**
+ * Payload of the command event sent to the server, acknowledged with a PassageCommandAck
+ */
+export interface PassageOutgoingCommand {
+  id: string;
+  type: PassageCommandType;
+  args?: Record<string, any>;
+}
+
+export interface PassageCommandAck {
+  success: boolean;
+  data?: any;
+  error?: string;
+}
+
+export interface PassageCommandOptions {
+  /**
+   * How long to wait for the acknowledgement, in milliseconds
+   * @default DEFAULT_COMMAND_TIMEOUT
+   */
+  timeout?: number;
+}
+
+/**
+ * State of the socket connection itself, not of the Passage connection
+ */
+export type PassageSocketConnectionState =
+  | "idle"
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "polling"
+  | "disconnected";
+
+export interface PassageSocketReconnectingEvent {
+  /** 1-based number of the attempt about to run */
+  attempt: number;
+  maxAttempts: number;
+}
+
+export interface PassageSocketReconnectedEvent {
+  /** Attempts it took to reconnect */
+  attempts: number;
+}
+
+export interface PassageSocketReconnectFailedEvent {
+  attempts: number;
+}
+
+/**
+ * Canonical socket events and their payloads
+ */
+export interface PassageSocketEventMap {
+  /** Full connection state, sent on join and on every transition */
+  connection: ConnectionUpdate;
+  /** Status-only update (status, status_update, connection_status, individual status events) */
+  status: PassageSocketStatusEvent;
+  /** DATA_COMPLETE */
+  dataComplete: { data?: any; [key: string]: any };
+  /** PROMPT_COMPLETE and prompt */
+  promptComplete: PassageSocketPromptEvent;
+  /** done and command{type:'done'} */
+  done: PassageSocketDoneEvent;
+  /** Commands other than done */
+  command: PassageSocketCommandEvent;
+  welcome: any;
+  error: PassageSocketErrorEvent;
+  /** Emitted by the WebSocketManager while the socket reconnects, not sent by the server */
+  reconnecting: PassageSocketReconnectingEvent;
+  reconnected: PassageSocketReconnectedEvent;
+  reconnectFailed: PassageSocketReconnectFailedEvent;
+}
+
+export type PassageSocketEventName = keyof PassageSocketEventMap;
+
+/**
+ * Discriminated union of every canonical event
+ */
+export type PassageSocketEvent = {
+  [E in PassageSocketEventName]: { type: E; payload: PassageSocketEventMap[E] };
+}[PassageSocketEventName];
+
+/**
+ * Raw socket.io event names the WebSocketManager subscribes to
+ */
+export const RAW_SOCKET_EVENTS = [
+  "connection",
+  "connection_update",
+  "status",
+  "status_update",
+  "connection_status",
+  ...CONNECTION_STATUSES,
+  "DATA_COMPLETE",
+  "PROMPT_COMPLETE",
+  "prompt",
+  "done",
+  "command",
+  "welcome",
+  "error",
+] as const;
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isConnectionStatus(value: unknown): value is ConnectionStatus {
+  return CONNECTION_STATUSES.includes(value as ConnectionStatus);
+}
+
+function isConnectionUpdate(value: unknown): value is ConnectionUpdate {
+  return (
+    isObject(value) &&
+    typeof value.id === "string" &&
+    isConnectionStatus(value.status)
+  );
+}
+
+function toConnection(value: Record<string, any>): ConnectionUpdate {
+  return {
+    ...(value as ConnectionUpdate),
+    promptResults: Array.isArray(value.promptResults)
+      ? value.promptResults
+      : [],
+  };
+}
+
+function toStatusEvent(value: unknown): PassageSocketStatusEvent | null {
+  if (isConnectionStatus(value)) {
+    return { status: value };
+  }
+  if (isObject(value) && isConnectionStatus(value.status)) {
+    return {
+      status: value.status,
+      message: value.message,
+      timestamp: value.timestamp,
+      metadata: value.metadata,
+    };
+  }
+  return null;
+}
+
+function toPromptEvent(value: unknown): PassageSocketPromptEvent | null {
+  if (!isObject(value)) {
+    return null;
+  }
+
+  const name = value.name ?? value.promptName;
+  if (typeof name !== "string") {
+    return null;
+  }
+
+  return {
+    name,
+    promptId: value.promptId ?? value.id,
+    status: PROMPT_RESULT_STATUSES.includes(value.status)
+      ? value.status
+      : "completed",
+    result: value.result ?? value.response ?? value.content,
+  };
+}
+
+function toDoneEvent(
+  value: unknown,
+  source: PassageSocketDoneEvent["source"]
+): PassageSocketDoneEvent {
+  const payload = isObject(value) ? value : {};
+  return {
+    // Commands only succeed explicitly, the legacy event unless it says otherwise
+    success:
+      source === "command"
+        ? payload.success === true
+        : payload.success !== false,
+    connectionId:
+      typeof payload.connectionId === "string"
+        ? payload.connectionId
+        : undefined,
+    data: payload.data,
+    error: payload.error ?? payload.data?.error,
+    source,
+  };
+}
+
+/**
+ * Normalize a raw socket event into canonical events
+ * Returns an empty list when the payload does not match the event's shape
+ */
+export function normalizeSocketEvent(
+  eventName: string,
+  data: unknown
+): PassageSocketEvent[] {
+  switch (eventName) {
+    case "connection":
+    case "connection_update":
+      return isConnectionUpdate(data)
+        ? [{ type: "connection", payload: toConnection(data) }]
+        : [];
+
+    case "status":
+    case "status_update":
+    case "connection_status": {
+      const status = toStatusEvent(data);
+      return status ? [{ type: "status", payload: status }] : [];
+    }
+
+    case "DATA_COMPLETE":
+      return [
+        {
+          type: "dataComplete",
+          payload: isObject(data) ? data : { data },
+        },
+      ];
+
+    case "PROMPT_COMPLETE":
+    case "prompt": {
+      const prompt = toPromptEvent(data);
+      return prompt ? [{ type: "promptComplete", payload: prompt }] : [];
+    }
+
+    case "done":
+      return [{ type: "done", payload: toDoneEvent(data, "legacy") }];
+
+    case "command": {
+      if (!isObject(data) || typeof data.type !== "string") {
+        return [];
+      }
+      return data.type === "done"
+        ? [{ type: "done", payload: toDoneEvent(data.args, "command") }]
+        : [
+            {
+              type: "command",
+              payload: {
+                type: data.type,
+                args: isObject(data.args) ? data.args : undefined,
+              },
+            },
+          ];
+    }
+
+    case "welcome":
+      return [{ type: "welcome", payload: data }];
+
+    case "error":
+    case "connect_error":
+      return [
+        {
+          type: "error",
+          payload: {
+            message:
+              (isObject(data) || data instanceof Error) &&
+              typeof (data as any).message === "string"
+                ? (data as any).message
+                : "WebSocket error occurred",
+            data,
+          },
+        },
+      ];
+  }
+
+  // Individual status events, some carry the full connection
+  if (isConnectionStatus(eventName)) {
+    return isConnectionUpdate(data)
+      ? [{ type: "connection", payload: toConnection(data) }]
+      : [{ type: "status", payload: { status: eventName } }];
+  }
+
+  return [];
+}
@@ -0,0 +1,125 @@
+import { io, Socket } from "socket.io-client";
+import type {
+  PassageTransport,
+  PassageTransportConnectOptions,
+  PassageTransportListener,
+  PassageTransportState,
+} from "./transport";
+
+/**
+ * Default transport, a socket.io connection with websocket and long-polling
+ */
+export class SocketIoTransport implements PassageTransport {
+  private socket: Socket | null = null;
+  private currentState: PassageTransportState = "idle";
+  private listeners: Map<string, Set<PassageTransportListener>> = new Map();
+  private anyListeners: Set<(event: string, ...args: any[]) => void> =
+    new Set();
+
+  get state(): PassageTransportState {
+    return this.currentState;
+  }
+
+  get id(): string | undefined {
+    return this.socket?.id;
+  }
+
+  connect(options: PassageTransportConnectOptions): void {
+    this.closeSocket();
+    this.currentState = "connecting";
+
+    const { reconnection } = options;
+    const socket = io(options.url, {
+      transports: ["websocket", "polling"],
+      timeout: options.timeout,
+      forceNew: true,
+      reconnection: reconnection.enabled,
+      reconnectionAttempts: reconnection.maxAttempts,
+      reconnectionDelay: reconnection.delay,
+      reconnectionDelayMax: reconnection.maxDelay,
+      randomizationFactor: reconnection.jitter,
+      query: options.query,
+    });
+    this.socket = socket;
+
+    socket.onAny((event: string, ...args: any[]) => {
+      this.anyListeners.forEach((listener) => listener(event, ...args));
+      this.notify(event, args);
+    });
+
+    socket.on("connect", () => {
+      this.currentState = "connected";
+      this.notify("connect", []);
+    });
+    socket.on("connect_error", (error) => {
+      this.notify("connect_error", [error]);
+    });
+    socket.on("disconnect", (reason) => {
+      // socket.active stays true while socket.io will reconnect on its own
+      this.currentState = socket.active ? "reconnecting" : "disconnected";
+      this.notify("disconnect", [reason]);
+    });
+
+    // Reconnection events are emitted by the underlying Manager, not the socket
+    socket.io.on("reconnect_attempt", (attempt) => {
+      this.currentState = "reconnecting";
+      this.notify("reconnect_attempt", [attempt]);
+    });
+    socket.io.on("reconnect", (attempts) => {
+      this.notify("reconnect", [attempts]);
+    });
+    socket.io.on("reconnect_error", (error) => {
+      this.notify("reconnect_error", [error]);
+    });
+    socket.io.on("reconnect_failed", () => {
+      this.currentState = "disconnected";
+      this.notify("reconnect_failed", []);
+    });
+  }
+
+  disconnect(): void {
+    this.closeSocket();
+    this.currentState = "disconnected";
+    this.listeners.clear();
+    this.anyListeners.clear();
+  }
+
+  on(event: string, listener: PassageTransportListener): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  onAny(listener: (event: string, ...args: any[]) => void): () => void {
+    this.anyListeners.add(listener);
+    return () => {
+      this.anyListeners.delete(listener);
+    };
+  }
+
+  emit(event: string, ...args: any[]): void {
+    this.socket?.emit(event, ...args);
+  }
+
+  private notify(event: string, args: any[]): void {
+    this.listeners.get(event)?.forEach((listener) => listener(...args));
+  }
+
+  // Detach before disconnecting so the manual disconnect is not reported
+  private closeSocket(): void {
+    if (!this.socket) {
+      return;
+    }
+    this.socket.io.off();
+    this.socket.off();
+    this.socket.offAny();
+    this.socket.disconnect();
+    this.socket = null;
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Transport contract of the WebSocketManager
+ * socket.io is the default, any implementation delivering the raw protocol events can replace it
+ */
+
+import type { PassageReconnectionOptions } from "./types";
+
+export type PassageTransportState =
+  | "idle"
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "disconnected";
+
+export interface PassageTransportConnectOptions {
+  /**
+   * Server URL including the namespace, e.g. "https://api.runpassage.ai/ws"
+   */
+  url: string;
+
+  /**
+   * Parameters sent with the handshake (intentToken, agentName)
+   */
+  query: Record<string, string>;
+
+  /**
+   * How long a connection attempt may take, in milliseconds
+   */
+  timeout: number;
+
+  /**
+   * Reconnection policy with the defaults filled in
+   */
+  reconnection: Required<PassageReconnectionOptions> & { enabled: boolean };
+}
+
+/**
+ * Events every transport emits next to the server events:
+ * - connect: the connection is (re)established
+ * - connect_error (error: Error): the first connection attempt failed
+ * - disconnect (reason: string)
+ * - reconnect_attempt (attempt: number), reconnect (attempts: number)
+ * - reconnect_error (error: Error), reconnect_failed: no attempts left
+ */
+export const TRANSPORT_LIFECYCLE_EVENTS = [
+  "connect",
+  "connect_error",
+  "disconnect",
+  "reconnect_attempt",
+  "reconnect",
+  "reconnect_error",
+  "reconnect_failed",
+] as const;
+
+export type PassageTransportListener = (...args: any[]) => void;
+
+export interface PassageTransport {
+  readonly state: PassageTransportState;
+
+  /**
+   * Identifier of the underlying connection, e.g. the socket id
+   */
+  readonly id?: string;
+
+  /**
+   * Open the connection, events flow through on() until disconnect()
+   */
+  connect(options: PassageTransportConnectOptions): void;
+
+  /**
+   * Close the connection for good, no reconnection follows
+   */
+  disconnect(): void;
+
+  /**
+   * Listen to a server or lifecycle event, returns an unsubscribe function
+   */
+  on(event: string, listener: PassageTransportListener): () => void;
+
+  /**
+   * Listen to every server event, used for debug logging
+   */
+  onAny?(listener: (event: string, ...args: any[]) => void): () => void;
+
+  /**
+   * Send an event to the server
+   * A function as the last argument is called with the server's acknowledgement
+   */
+  emit(event: string, ...args: any[]): void;
+}
+
+/**
+ * Creates a transport for each connection, the WebSocketManager never reuses one after disconnect()
+ */
+export type PassageTransportFactory = () => PassageTransport;
@@ -1,4 +1,10 @@
 import type { WebSocketManager } from "./websocket-manager";
+import type { PassageTransportFactory } from "./transport";
+import type {
+  PassageSession,
+  PassageSessionEventRecord,
+} from "./core/session";
+import type { PassageClient } from "./core/client";
 import type * as React from "react";
 
 export type ConnectionStatus =
@@ -12,6 +18,19 @@ export type ConnectionStatus =
   // Adding this here because it's causing a build issue. This is not a valid status for a connection.
   | "done";
 
+export type PassageEnvironmentName = "production" | "sandbox" | "local";
+
+export interface PassageEnvironmentUrls {
+  uiUrl: string;
+  apiUrl: string;
+  /**
+   * Defaults to apiUrl when omitted
+   */
+  socketUrl?: string;
+}
+
+export type PassageEnvironment = PassageEnvironmentName | PassageEnvironmentUrls;
+
 export interface PassageConfig {
   /**
    * Publishable key for API authentication
@@ -19,21 +38,28 @@ export interface PassageConfig {
    */
   publishableKey?: string;
 
+  /**
+   * Environment preset deriving uiUrl, apiUrl and socketUrl, or custom URLs
+   * Explicit uiUrl/apiUrl/socketUrl values override the preset
+   * @default "production"
+   */
+  environment?: PassageEnvironment;
+
   /**
    * UI URL for the Passage web app interface
-   * @default "https://ui.getpassage.ai"
+   * @default "https://ui.runpassage.ai"
    */
   uiUrl?: string;
 
   /**
    * API URL for backend API calls
-   * @default "https://api.getpassage.ai"
+   * @default "https://api.runpassage.ai"
    */
   apiUrl?: string;
 
   /**
    * Socket server URL for websocket connections
-   * @default "https://api.getpassage.ai"
+   * @default "https://api.runpassage.ai"
    */
   socketUrl?: string;
 
@@ -53,6 +79,204 @@ export interface PassageConfig {
    * Custom styles for the modal
    */
   customStyles?: PassageModalStyles;
+
+  /**
+   * Persist connection results so they can be read back with getStoredResults()
+   * Pass true to use the defaults (localStorage, 50 entries, no expiry)
+   * @default false
+   */
+  storeResults?: boolean | PassageResultStoreOptions;
+
+  /**
+   * Keep the open session in sessionStorage and resume it when the page reloads
+   * @default true
+   */
+  resumeSessions?: boolean;
+
+  /**
+   * Fail open() and openAppClip() with PROVIDER_NOT_FOUND when no PassageProvider is mounted,
+   * instead of rendering with the built-in DOM renderer
+   * @default false
+   */
+  requireProvider?: boolean;
+
+  /**
+   * Fetch intent tokens lazily from your backend
+   * Used by open() when no token is passed or the passed token has expired
+   */
+  tokenProvider?: PassageTokenProvider;
+
+  /**
+   * How long before the intent token expires onTokenExpiring fires, in milliseconds
+   * @default 60000
+   */
+  tokenExpiryWarning?: number;
+
+  /**
+   * How the socket reconnects after losing its connection
+   * Pass false to disable reconnection, true or an object to use the defaults
+   * @default true
+   */
+  reconnection?: boolean | PassageReconnectionOptions;
+
+  /**
+   * Poll the connection over REST when the socket cannot connect, e.g. behind proxies blocking websockets
+   * Pass false to fail the session instead, true or an object to use the defaults
+   * @default true
+   */
+  pollingFallback?: boolean | PassagePollingFallbackOptions;
+
+  /**
+   * Create the transport carrying the session events, e.g. an SSE or in-memory transport
+   * @default socket.io
+   */
+  transport?: PassageTransportFactory;
+
+  /**
+   * "simulate" plays a scripted session with fixture data and a local stand-in for the
+   * connect flow, without touching the network. Meant for UI development and QA
+   * @default "live"
+   */
+  mode?: PassageMode;
+
+  /**
+   * Script of the simulated session, used when mode is "simulate"
+   */
+  simulation?: PassageSimulationOptions;
+}
+
+export type PassageMode = "live" | "simulate";
+
+export type PassageSimulationOutcome = "success" | "rejected" | "error";
+
+export interface PassageSimulationOptions {
+  /**
+   * Branch the scripted session takes
+   * success: pending → connecting → connected → data_processing → data_available → done
+   * rejected: pending → connecting → rejected
+   * error: pending → connecting → connected → data_processing → error
+   * @default "success"
+   */
+  outcome?: PassageSimulationOutcome;
+
+  /**
+   * Delay between two steps, in milliseconds
+   * @default 1000
+   */
+  delay?: number;
+
+  /**
+   * Data reported with data_available and done
+   */
+  data?: any[];
+
+  /**
+   * Prompt results reported before data_available
+   */
+  prompts?: {
+    name: string;
+    result: string;
+    status?: ConnectionPromptResultStatus;
+  }[];
+}
+
+export interface PassagePollingFallbackOptions {
+  /**
+   * Delay between two requests, in milliseconds
+   * @default 3000
+   */
+  interval?: number;
+}
+
+export interface PassageReconnectionOptions {
+  /**
+   * Attempts before giving up and failing the session with RECONNECT_FAILED
+   * @default 10
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first attempt, doubled on every following attempt, in milliseconds
+   * @default 1000
+   */
+  delay?: number;
+
+  /**
+   * Upper bound of the delay between attempts, in milliseconds
+   * @default 5000
+   */
+  maxDelay?: number;
+
+  /**
+   * Randomization factor applied to each delay, between 0 and 1
+   * @default 0.5
+   */
+  jitter?: number;
+
+  /**
+   * How long a single connection attempt may take, in milliseconds
+   * @default 10000
+   */
+  timeout?: number;
+}
+
+export type PassageTokenProvider = () => Promise<string>;
+
+export interface PassageTokenExpiringEvent {
+  intentToken: string;
+
+  /**
+   * Expiry time in milliseconds since epoch
+   */
+  expiresAt: number;
+
+  /**
+   * Milliseconds left before expiry
+   */
+  expiresIn: number;
+}
+
+/**
+ * Key/value storage used by the result store
+ * Window.localStorage and Window.sessionStorage satisfy this interface
+ */
+export interface PassageResultStorageAdapter {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+export type PassageResultStorageType =
+  | "localStorage"
+  | "sessionStorage"
+  | "indexedDB"
+  | "memory";
+
+export interface PassageResultStoreOptions {
+  /**
+   * Built-in storage or a custom adapter
+   * Falls back to memory when the requested storage is unavailable
+   * @default "localStorage"
+   */
+  storage?: PassageResultStorageType | PassageResultStorageAdapter;
+
+  /**
+   * Storage key the results are saved under
+   * @default PASSAGE_DATA_RESULTS_KEY
+   */
+  key?: string;
+
+  /**
+   * Maximum number of results kept, the oldest are evicted first
+   * @default 50
+   */
+  maxEntries?: number;
+
+  /**
+   * Time to live of a result in milliseconds (0 keeps results forever)
+   * @default 0
+   */
+  ttl?: number;
 }
 
 export interface PassageModalStyles {
@@ -78,11 +302,36 @@ export interface PassagePromptResponse {
   response?: any;
 }
 
+/**
+ * A prompt result as it completes, `response` holds the parsed JSON when the result is JSON
+ */
+export interface PassagePromptResult extends PassagePromptResponse {
+  promptId?: string;
+  status: ConnectionPromptResultStatus;
+}
+
+/**
+ * Prompt results of a session so far, grouped by status
+ */
+export interface PassagePromptProgress {
+  prompts: PassagePromptResult[];
+  pending: PassagePromptResult[];
+  completed: PassagePromptResult[];
+  failed: PassagePromptResult[];
+}
+
 export interface PassageOpenOptions {
   /**
-   * The intent token for authentication (required)
+   * The intent token for authentication
+   * Required unless a tokenProvider is set here or in PassageConfig
    */
-  token: string;
+  token?: string;
+
+  /**
+   * Fetch a fresh intent token, called when `token` is missing or expired
+   * Overrides PassageConfig.tokenProvider
+   */
+  tokenProvider?: PassageTokenProvider;
 
   /**
    * Called when the connection is successfully established
@@ -99,11 +348,26 @@ export interface PassageOpenOptions {
    */
   onDataComplete?: (data: PassageDataResult) => void;
 
+  /**
+   * Called with each prompt result as soon as it completes or fails
+   */
+  onPromptComplete?: (prompt: PassagePromptResult) => void;
+
   /**
    * Called when the user manually closes the modal before connection
    */
   onExit?: (reason?: string) => void;
 
+  /**
+   * Called while the session is open when its intent token is about to expire
+   */
+  onTokenExpiring?: (event: PassageTokenExpiringEvent) => void;
+
+  /**
+   * Called with every session event, including reconnecting and reconnected
+   */
+  onEvent?: (event: PassageSessionEventRecord) => void;
+
   /**
    * Presentation style for the modal
    * @default "modal"
@@ -114,6 +378,17 @@ export interface PassageOpenOptions {
    * Container element for embed mode
    */
   container?: string | HTMLElement;
+
+  /**
+   * Id of the PassageProvider rendering the session, the first mounted Provider when omitted
+   * Opening throws when no Provider with this id is mounted
+   */
+  providerId?: string;
+
+  /**
+   * Abort signal that cancels the session when aborted
+   */
+  signal?: AbortSignal;
 }
 
 export interface GenerateAppClipOptions {
@@ -290,10 +565,43 @@ export interface OpenAppClipOptions extends GenerateAppClipOptions {
    */
   onDataComplete?: (data: PassageDataResult) => void;
 
+  /**
+   * Called with each prompt result as soon as it completes or fails
+   */
+  onPromptComplete?: (prompt: PassagePromptResult) => void;
+
   /**
    * Called when the user manually closes the modal
    */
   onExit?: (reason?: string) => void;
+
+  /**
+   * Called with every session event, including reconnecting and reconnected
+   */
+  onEvent?: (event: PassageSessionEventRecord) => void;
+
+  /**
+   * Presentation style for the App Clip view
+   * "embed" renders the QR code view inside `container` instead of the overlay
+   * @default "modal"
+   */
+  presentationStyle?: "modal" | "embed";
+
+  /**
+   * Container element for embed mode
+   */
+  container?: string | HTMLElement;
+
+  /**
+   * Id of the PassageProvider rendering the session, the first mounted Provider when omitted
+   * Opening throws when no Provider with this id is mounted
+   */
+  providerId?: string;
+
+  /**
+   * Abort signal that cancels the session when aborted
+   */
+  signal?: AbortSignal;
 }
 
 export interface PassageDataResult {
@@ -311,6 +619,11 @@ export interface PassageDataResult {
    * The intent token for this session
    */
   intentToken?: string;
+
+  /**
+   * Data grouped by resource type, set when the data was fetched with getData()
+   */
+  resources?: Record<string, any[]>;
 }
 
 export interface PassageStoredDataResult extends PassageDataResult {
@@ -387,17 +700,40 @@ export interface ConnectionUpdate {
 }
 
 export interface PassageDataOptions {
+  /**
+   * Intent token of the session, used for authentication and to derive connectionId/resources
+   */
   intentToken?: string;
+
+  /**
+   * Connection to read, defaults to the sessionId of the intent token
+   */
   connectionId?: string;
+
+  /**
+   * Resource types to fetch, defaults to the resources of the intent token
+   */
   resources?: string[];
+
+  /**
+   * Fetch each resource from the API instead of only reading stored results
+   * @default false
+   */
   fetchFromApi?: boolean;
 }
 
 export interface PassageContextValue {
-  open: (options: PassageOpenOptions) => Promise<void>;
-  close: () => void;
+  open: (options: PassageOpenOptions) => PassageSession;
+  /** Close the flow of a connection, or every open flow without one */
+  close: (connectionId?: string) => void;
   generateAppClip: (options: GenerateAppClipOptions) => Promise<GenerateAppClipResponse>;
-  openAppClip: (options: OpenAppClipOptions) => Promise<void>;
+  openAppClip: (options: OpenAppClipOptions) => Promise<PassageSession>;
+  /** Every open session, in the order they were opened */
+  getSessions: () => PassageSession[];
+  /** Client behind the Provider */
+  client: PassageClient;
+  /** Id the Provider was mounted with */
+  providerId?: string;
 }
 
 export interface StatusUpdateMessage {
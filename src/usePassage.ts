@@ -1,3 +1,5 @@
+"use client";
+
 import { useContext } from "react";
 import { PassageContext } from "./Provider";
 import type { PassageContextValue } from "./types";
@@ -26,10 +28,10 @@ import type { PassageContextValue } from "./types";
  *       resources: { trip: { read: {} } }
  *     });
  *
- *     await open({
- *       token: intentToken,
- *       onConnectionComplete: (data) => console.log(data)
- *     });
+ *     // open() returns a session handle, await its result or use callbacks
+ *     const session = open({ token: intentToken });
+ *     const data = await session.result;
+ *     console.log(data);
  *   };
  *
  *   const handleAppClip = async () => {
@@ -0,0 +1,46 @@
+/**
+ * Device detection shared by the React App Clip views and the DOM overlay
+ */
+
+export interface DetectedDevice {
+  /** Android mobile device, or forced with ?android=true */
+  isAndroid: boolean;
+  /** iOS mobile device, or forced with ?ios=true */
+  isIosMobile: boolean;
+}
+
+export const DEFAULT_QR_CODE_SIZE = 200;
+
+/**
+ * QR code size for a viewport width
+ */
+export function getQrCodeSize(width: number): number {
+  if (width <= 375) return 100; // Small screens (iPhone SE, etc.)
+  if (width <= 480) return 116; // Medium mobile screens
+  if (width <= 768) return 160; // Tablets and small desktops
+  return DEFAULT_QR_CODE_SIZE; // Desktop screens
+}
+
+/**
+ * Detect Android and iOS mobile devices, browser only
+ */
+export function detectDevice(): DetectedDevice {
+  // Check for testing query parameters
+  const urlParams = new URLSearchParams(window.location.search);
+  const forceAndroid = urlParams.get("android") === "true";
+  const forceIos = urlParams.get("ios") === "true";
+
+  const userAgent = navigator.userAgent.toLowerCase();
+  const isAndroidDevice = /android/.test(userAgent);
+  const isIosDevice = /iphone|ipad|ipod/.test(userAgent);
+  const isMobileDevice =
+    /android|webos|iphone|ipod|ipad|blackberry|iemobile|opera mini/i.test(
+      userAgent
+    );
+
+  // Allow query params to override detection for testing
+  return {
+    isAndroid: forceAndroid || (isAndroidDevice && isMobileDevice),
+    isIosMobile: forceIos || (isIosDevice && isMobileDevice),
+  };
+}
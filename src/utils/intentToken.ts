@@ -1,49 +1,24 @@
 /**
  * Intent token utilities for the Passage SDK
- * Handles JWT decoding, resource analysis, and write operation detection
+ * Handles resource analysis and write operation detection
  */
 
 import { logger } from '../logger';
-import { getConfig } from '../core/passage';
-
-// Simple JWT decode function to avoid external dependency
-function jwtDecode<T = any>(token: string): T {
-  try {
-    const base64Url = token.split('.')[1];
-    const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
-    const jsonPayload = decodeURIComponent(
-      atob(base64)
-        .split('')
-        .map((c) => '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2))
-        .join('')
-    );
-    return JSON.parse(jsonPayload);
-  } catch (error) {
-    throw new Error('Failed to decode JWT token');
-  }
-}
-
-export interface ResourceOperation {
-  read?: Record<string, unknown>;
-  write?: Record<string, unknown>;
-}
-
-export interface IntentTokenResources {
-  balance?: ResourceOperation;
-  payment_method?: ResourceOperation;
-  [key: string]: ResourceOperation | undefined;
-}
-
-export interface IntentTokenPayload {
-  sessionId: string;
-  resources?: IntentTokenResources;
-  returnUrl?: string;
-  products?: string[];
-  amount?: string | number;
-  operationType?: string;
-  // Allow other properties from JWT decode without explicitly defining them
-  [key: string]: unknown;
-}
+import { getApiClient } from '../core/passage';
+import { isPassageApiError } from '../core/apiClient';
+import { CONNECTIONS_PATH } from '../config';
+import type { IntentTokenPayload } from './intentTokenPayload';
+
+export {
+  decodeIntentToken,
+  getIntentTokenExpiry,
+  isIntentTokenExpired
+} from './intentTokenPayload';
+export type {
+  ResourceOperation,
+  IntentTokenResources,
+  IntentTokenPayload
+} from './intentTokenPayload';
 
 export interface WriteResourceInfo {
   resourceType: string;
@@ -51,18 +26,6 @@ export interface WriteResourceInfo {
   writeConfig?: Record<string, unknown>;
 }
 
-/**
- * Decodes an intent token and extracts its payload
- */
-export function decodeIntentToken(token: string): IntentTokenPayload | null {
-  try {
-    return jwtDecode<IntentTokenPayload>(token);
-  } catch (error) {
-    logger.error('Failed to decode intent token:', error);
-    return null;
-  }
-}
-
 /**
  * Extracts write resource information from the intent token
  */
@@ -119,39 +82,19 @@ export async function checkResourceData(
   intentToken?: string
 ): Promise<{ hasData: boolean; data?: ResourceDataItem[] }> {
   try {
-    const config = getConfig();
-    const apiUrl = config?.apiUrl || 'https://api.getpassage.ai';
-    const endpoint = `${apiUrl}/connections/${sessionId}/${resourceType}`;
+    const apiClient = getApiClient();
+    const path = `${CONNECTIONS_PATH}/${sessionId}/${resourceType}`;
 
-    logger.debug(`[checkResourceData] Fetching ${resourceType} data from:`, endpoint);
+    logger.debug(`[checkResourceData] Fetching ${resourceType} data from:`, apiClient.buildUrl(path));
 
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json'
-    };
-
-    // Add intent token to headers if provided
     if (intentToken) {
-      headers['x-intent-token'] = intentToken;
       logger.debug('[checkResourceData] Added intent token to headers');
     }
 
-    const response = await fetch(endpoint, {
-      method: 'GET',
-      headers
+    const data = await apiClient.get<any>(path, {
+      intentToken,
+      errorMessage: `Failed to fetch ${resourceType} data`
     });
-
-    logger.debug(`[checkResourceData] Response status: ${response.status}`);
-
-    if (!response.ok) {
-      // If we get 404, it means no data exists
-      if (response.status === 404) {
-        logger.debug(`[checkResourceData] No data found (404) for ${resourceType}`);
-        return { hasData: false };
-      }
-      throw new Error(`Failed to fetch ${resourceType} data: ${response.status}`);
-    }
-
-    const data = await response.json();
     logger.debug(`[checkResourceData] Response data:`, data);
 
     // Check if there's actual data
@@ -163,6 +106,11 @@ export async function checkResourceData(
 
     return { hasData, data: data?.data };
   } catch (error) {
+    // If we get 404, it means no data exists
+    if (isPassageApiError(error) && error.status === 404) {
+      logger.debug(`[checkResourceData] No data found (404) for ${resourceType}`);
+      return { hasData: false };
+    }
     logger.error(`[checkResourceData] Error checking ${resourceType} data:`, error);
     return { hasData: false };
   }
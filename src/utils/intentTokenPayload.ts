@@ -0,0 +1,80 @@
+/**
+ * Intent token decoding and expiry checks
+ * Kept free of API imports so core modules can use it without import cycles
+ */
+
+import { logger } from "../logger";
+
+// Simple JWT decode function to avoid external dependency
+function jwtDecode<T = any>(token: string): T {
+  try {
+    const base64Url = token.split(".")[1];
+    const base64 = base64Url.replace(/-/g, "+").replace(/_/g, "/");
+    const jsonPayload = decodeURIComponent(
+      atob(base64)
+        .split("")
+        .map((c) => "%" + ("00" + c.charCodeAt(0).toString(16)).slice(-2))
+        .join("")
+    );
+    return JSON.parse(jsonPayload);
+  } catch (error) {
+    throw new Error("Failed to decode JWT token");
+  }
+}
+
+export interface ResourceOperation {
+  read?: Record<string, unknown>;
+  write?: Record<string, unknown>;
+}
+
+export interface IntentTokenResources {
+  balance?: ResourceOperation;
+  payment_method?: ResourceOperation;
+  [key: string]: ResourceOperation | undefined;
+}
+
+export interface IntentTokenPayload {
+  sessionId: string;
+  resources?: IntentTokenResources;
+  returnUrl?: string;
+  products?: string[];
+  amount?: string | number;
+  operationType?: string;
+  exp?: number;
+  iat?: number;
+  // Allow other properties from JWT decode without explicitly defining them
+  [key: string]: unknown;
+}
+
+/**
+ * Decodes an intent token and extracts its payload
+ */
+export function decodeIntentToken(token: string): IntentTokenPayload | null {
+  try {
+    return jwtDecode<IntentTokenPayload>(token);
+  } catch (error) {
+    logger.error("Failed to decode intent token:", error);
+    return null;
+  }
+}
+
+/**
+ * Gets the expiry of an intent token in milliseconds since epoch
+ * Returns null when the token cannot be decoded or has no exp claim
+ */
+export function getIntentTokenExpiry(token: string): number | null {
+  const payload = decodeIntentToken(token);
+  return typeof payload?.exp === "number" ? payload.exp * 1000 : null;
+}
+
+/**
+ * Checks if an intent token has expired, or expires within `leewayMs`
+ * Tokens without an exp claim never expire
+ */
+export function isIntentTokenExpired(
+  token: string,
+  leewayMs: number = 0
+): boolean {
+  const expiresAt = getIntentTokenExpiry(token);
+  return expiresAt !== null && expiresAt - leewayMs <= Date.now();
+}
@@ -0,0 +1,144 @@
+/**
+ * React-free entry (@getpassage/react-js/vanilla)
+ * The connect flow and App Clip overlay are rendered straight into the DOM, or through the
+ * <passage-connect> and <passage-app-clip> elements registered by definePassageElements()
+ *
+ * @example
+ * ```js
+ * import { Passage } from "@getpassage/react-js/vanilla";
+ *
+ * Passage.configure({ publishableKey: "pk-live-..." });
+ * const session = Passage.open({ token });
+ * const result = await session.result;
+ * ```
+ */
+
+import {
+  configure,
+  open,
+  close,
+  getSessions,
+  resumeSession,
+  generateAppClip,
+  openAppClip,
+  getConfig,
+  getStoredResults,
+  clearStoredResults,
+  getData,
+} from "../core/passage";
+import { definePassageElements } from "../dom/elements";
+
+export {
+  configure,
+  open,
+  close,
+  getSessions,
+  resumeSession,
+  generateAppClip,
+  openAppClip,
+  getConfig,
+  getStoredResults,
+  clearStoredResults,
+  getData,
+  definePassageElements,
+};
+
+/**
+ * The global functions grouped under one namespace
+ */
+export const Passage = {
+  configure,
+  open,
+  close,
+  getSessions,
+  resumeSession,
+  generateAppClip,
+  openAppClip,
+  getConfig,
+  getStoredResults,
+  clearStoredResults,
+  getData,
+  defineElements: definePassageElements,
+};
+
+export {
+  PassageClient,
+  createPassageClient,
+  getDefaultClient,
+} from "../core/client";
+export type { PassageClientOptions } from "../core/client";
+export { PassageConfigError } from "../core/environment";
+export { PassageSession, SESSION_EXITED_CODE } from "../core/session";
+export type {
+  PassageSessionEvent,
+  PassageSessionEventMap,
+  PassageSessionCallbacks,
+  PassageSessionEventRecord,
+  PassageStatusHistoryEntry,
+} from "../core/session";
+export {
+  SESSION_TRANSITIONS,
+  TERMINAL_SESSION_STATES,
+  isTerminalSessionState,
+} from "../core/sessionState";
+export type {
+  PassageSessionState,
+  PassageSessionStateChange,
+} from "../core/sessionState";
+export { PassageSessionManager } from "../core/sessionManager";
+export type { PassageViewState } from "../core/sessionManager";
+export {
+  PASSAGE_CONNECT_ELEMENT,
+  PASSAGE_APP_CLIP_ELEMENT,
+  PASSAGE_ELEMENT_EVENTS,
+} from "../dom/elements";
+export type {
+  PassageConnectElement,
+  PassageAppClipElement,
+  DefinePassageElementsOptions,
+} from "../dom/elements";
+export { createFetchTokenProvider } from "../core/tokenProvider";
+export { PassageEventBus } from "../core/eventBus";
+export {
+  PASSAGE_EVENT_PREFIX,
+  dispatchPassageEvent,
+} from "../core/passageEvents";
+export type { PassageEventMap, PassageEventName } from "../core/passageEvents";
+export { SocketIoTransport } from "../socket-io-transport";
+export { SimulatedTransport } from "../simulated-transport";
+export { TRANSPORT_LIFECYCLE_EVENTS } from "../transport";
+export type {
+  PassageTransport,
+  PassageTransportConnectOptions,
+  PassageTransportFactory,
+  PassageTransportState,
+} from "../transport";
+export type {
+  PassageCommandType,
+  PassageCommandAck,
+  PassageCommandOptions,
+} from "../socket-events";
+export { PassageApiError, isPassageApiError } from "../core/apiClient";
+
+export type {
+  PassageConfig,
+  PassageEnvironment,
+  PassageOpenOptions,
+  PassageTokenProvider,
+  PassageReconnectionOptions,
+  PassagePollingFallbackOptions,
+  PassageMode,
+  PassageSimulationOptions,
+  GenerateAppClipOptions,
+  GenerateAppClipResponse,
+  OpenAppClipOptions,
+  PassageDataResult,
+  PassagePromptResult,
+  PassagePromptProgress,
+  PassageDataOptions,
+  PassageStoredDataResult,
+  PassageSuccessData,
+  PassageErrorData,
+  ConnectionStatus,
+  ConnectionUpdate,
+} from "../types";
@@ -1,16 +1,162 @@
-import { io, Socket } from "socket.io-client";
-import { logger } from "./logger";
-import { analytics, ANALYTICS_EVENTS } from "./analytics";
+import { logger, Logger } from "./logger";
+import { analytics, AnalyticsManager, ANALYTICS_EVENTS } from "./analytics";
 import type {
   ConnectionStatus,
-  StatusUpdateMessage,
   ConnectionUpdate,
+  PassageReconnectionOptions,
 } from "./types";
-import { DEFAULT_SOCKET_NAMESPACE, DEFAULT_SOCKET_URL } from "./config";
+import { ConnectionPoller } from "./connection-poller";
+import { decodeIntentToken } from "./utils/intentTokenPayload";
+import { SocketIoTransport } from "./socket-io-transport";
+import type {
+  PassageTransport,
+  PassageTransportConnectOptions,
+  PassageTransportFactory,
+} from "./transport";
+import {
+  RAW_SOCKET_EVENTS,
+  PassageCommandAck,
+  PassageCommandOptions,
+  PassageCommandType,
+  PassageOutgoingCommand,
+  PassageSocketConnectionState,
+  PassageSocketEvent,
+  PassageSocketEventMap,
+  PassageSocketEventName,
+  isConnectionStatus,
+  normalizeSocketEvent,
+} from "./socket-events";
+import {
+  DEFAULT_COMMAND_TIMEOUT,
+  DEFAULT_POLLING_INTERVAL,
+  DEFAULT_RECONNECTION_DELAY,
+  DEFAULT_RECONNECTION_JITTER,
+  DEFAULT_RECONNECTION_MAX_ATTEMPTS,
+  DEFAULT_RECONNECTION_MAX_DELAY,
+  DEFAULT_SOCKET_NAMESPACE,
+  DEFAULT_SOCKET_TIMEOUT,
+  DEFAULT_SOCKET_URL,
+} from "./config";
+
+export interface WebSocketManagerContext {
+  /**
+   * Logger used by this manager, defaults to the shared SDK logger
+   */
+  logger?: Logger;
+
+  /**
+   * Analytics used by this manager, defaults to the shared SDK analytics
+   */
+  analytics?: AnalyticsManager;
+
+  /**
+   * Creates the transport of each connection, defaults to socket.io
+   */
+  createTransport?: PassageTransportFactory;
+}
+
+export interface WebSocketConnectOptions {
+  /**
+   * Reconnection policy, see PassageConfig.reconnection
+   * @default true
+   */
+  reconnection?: boolean | PassageReconnectionOptions;
+
+  /**
+   * Poll the connection over REST when the socket cannot connect
+   * Polled changes reach the same listeners as socket events
+   */
+  fallback?: {
+    fetchConnection: () => Promise<ConnectionUpdate>;
+    /** @default DEFAULT_POLLING_INTERVAL */
+    interval?: number;
+  };
+
+  /**
+   * Transport for this connection, overrides the manager's createTransport
+   */
+  transport?: PassageTransportFactory;
+
+  /**
+   * Session the events of this connection belong to, defaults to the sessionId of the intent token
+   */
+  sessionId?: string;
+}
+
+export interface WebSocketListenerOptions {
+  /**
+   * Only receive the events of this session (connection id)
+   * Listeners stay registered across reconnects and token switches until their owner removes them,
+   * unscoped listeners receive the events of every session
+   */
+  sessionId?: string;
+}
+
+type ReconnectionPolicy = PassageTransportConnectOptions["reconnection"];
+
+// Fill in the defaults of PassageConfig.reconnection
+function resolveReconnectionPolicy(
+  reconnection: boolean | PassageReconnectionOptions = true
+): ReconnectionPolicy {
+  const options = typeof reconnection === "object" ? reconnection : {};
+  return {
+    enabled: reconnection !== false,
+    maxAttempts: options.maxAttempts ?? DEFAULT_RECONNECTION_MAX_ATTEMPTS,
+    delay: options.delay ?? DEFAULT_RECONNECTION_DELAY,
+    maxDelay: options.maxDelay ?? DEFAULT_RECONNECTION_MAX_DELAY,
+    jitter: options.jitter ?? DEFAULT_RECONNECTION_JITTER,
+    timeout: options.timeout ?? DEFAULT_SOCKET_TIMEOUT,
+  };
+}
+
+function getTokenSessionId(intentToken: string): string | null {
+  return decodeIntentToken(intentToken)?.sessionId || null;
+}
+
+// Servers may acknowledge without a payload, which counts as success
+function toCommandAck(response: unknown): PassageCommandAck {
+  if (!response || typeof response !== "object") {
+    return { success: true, data: response };
+  }
+  const ack = response as Record<string, any>;
+  return {
+    success: ack.success !== false,
+    data: ack.data,
+    error: typeof ack.error === "string" ? ack.error : undefined,
+  };
+}
+
+// Socket payloads are plain JSON, so their serialization compares their content
+function isSameContent(previous: unknown, next: unknown): boolean {
+  return previous === next || JSON.stringify(previous) === JSON.stringify(next);
+}
+
+// Whether two updates describe the same connection state, repeated updates are dropped
+function isSameConnection(
+  previous: ConnectionUpdate | null,
+  next: ConnectionUpdate
+): boolean {
+  if (
+    !previous ||
+    previous.id !== next.id ||
+    previous.status !== next.status ||
+    !isSameContent(previous.data, next.data) ||
+    previous.promptResults.length !== next.promptResults.length
+  ) {
+    return false;
+  }
+  return previous.promptResults.every(
+    (prompt, index) =>
+      prompt.name === next.promptResults[index].name &&
+      prompt.status === next.promptResults[index].status &&
+      isSameContent(prompt.result, next.promptResults[index].result)
+  );
+}
 
 export class WebSocketManager {
   private static instance: WebSocketManager | null = null;
-  private socket: Socket | null = null;
+  private transport: PassageTransport | null = null;
+  private createTransport: PassageTransportFactory;
   private isConnected: boolean = false;
   private intentToken: string | null = null;
   private statusListeners: Set<(status: ConnectionStatus) => void> = new Set();
@@ -18,10 +164,36 @@ export class WebSocketManager {
     new Set();
   private messageListeners: Set<(eventName: string, data: any) => void> =
     new Set();
+  private eventListeners: Map<
+    PassageSocketEventName,
+    Set<(payload: any) => void>
+  > = new Map();
+  // Session each scoped registration belongs to, keyed by the function registered for it
+  private listenerScopes: WeakMap<Function, string> = new WeakMap();
+  // Session the current connection belongs to
+  private sessionId: string | null = null;
   private currentConnection: ConnectionUpdate | null = null;
+  private reconnection: ReconnectionPolicy = resolveReconnectionPolicy();
+  // Set after a reconnect until the latest connection state has been received
+  private awaitingReplay = false;
+  private fallback: WebSocketConnectOptions["fallback"] | null = null;
+  private poller: ConnectionPoller | null = null;
+  // Commands waiting for their acknowledgement, by command id
+  private pendingCommands: Map<
+    string,
+    { reject: (error: Error) => void; timer: ReturnType<typeof setTimeout> }
+  > = new Map();
+  private commandCounter = 0;
   private headlessCleanup: (() => void) | null = null;
-
-  private constructor() {}
+  private logger: Logger;
+  private analytics: AnalyticsManager;
+
+  constructor(context: WebSocketManagerContext = {}) {
+    this.logger = context.logger ?? logger;
+    this.analytics = context.analytics ?? analytics;
+    this.createTransport =
+      context.createTransport ?? (() => new SocketIoTransport());
+  }
 
   static getInstance(): WebSocketManager {
     if (!WebSocketManager.instance) {
@@ -31,8 +203,8 @@ export class WebSocketManager {
   }
 
   setDebug(debug: boolean): void {
-    logger.setDebugMode(debug);
-    logger.debug("[WebSocketManager] Debug mode set to:", debug);
+    this.logger.setDebugMode(debug);
+    this.logger.debug("[WebSocketManager] Debug mode set to:", debug);
   }
 
   setHeadlessCleanup(cleanup: () => void): void {
@@ -42,369 +214,473 @@ export class WebSocketManager {
   async connect(
     intentToken: string,
     socketUrl: string = DEFAULT_SOCKET_URL,
-    namespace: string = DEFAULT_SOCKET_NAMESPACE
+    namespace: string = DEFAULT_SOCKET_NAMESPACE,
+    options: WebSocketConnectOptions = {}
   ): Promise<void> {
-    if (this.socket?.connected && this.intentToken === intentToken) {
-      logger.debug(
+    if (
+      (this.transport?.state === "connected" || this.poller?.isRunning) &&
+      this.intentToken === intentToken
+    ) {
+      this.logger.debug(
         "[WebSocketManager] Already connected with same intent token"
       );
       return;
     }
 
     // Disconnect existing connection if any
-    if (this.socket) {
-      logger.debug(
+    if (this.transport || this.poller) {
+      this.logger.debug(
         "[WebSocketManager] Disconnecting existing socket before creating new connection"
       );
       this.disconnect();
     }
 
     this.intentToken = intentToken;
+    this.sessionId = options.sessionId ?? getTokenSessionId(intentToken);
+    this.reconnection = resolveReconnectionPolicy(options.reconnection);
+    this.fallback = options.fallback ?? null;
+    const connectTimeout = this.reconnection.timeout;
 
-    logger.debug(
+    this.logger.debug(
       `[WebSocketManager] Connecting to ${socketUrl}${namespace} with intent token:`,
       intentToken
     );
 
     // Track remote control connection start
-    analytics.track(ANALYTICS_EVENTS.SDK_REMOTE_CONTROL_CONNECT_START, {
+    this.analytics.track(ANALYTICS_EVENTS.SDK_REMOTE_CONTROL_CONNECT_START, {
       socketUrl,
       namespace,
     });
 
-    this.socket = io(`${socketUrl}${namespace}`, {
-      transports: ["websocket", "polling"],
-      timeout: 10000,
-      forceNew: true,
-      query: {
-        intentToken: this.intentToken,
-        agentName: "passage-react-js/1.0",
-      },
-    });
-
-    this.setupEventHandlers();
-
-    // Wait for connection
-    return new Promise((resolve, reject) => {
-      let isResolved = false;
-
-      const timeout = setTimeout(() => {
-        if (!isResolved) {
-          logger.debug(
-            "[WebSocketManager] Connection timeout after 10 seconds"
-          );
-          reject(new Error("WebSocket connection timeout"));
-        }
-      }, 10000);
+    const transport = (options.transport ?? this.createTransport)();
+    this.transport = transport;
 
+    // Wait for connection, subscribed before connecting so no event is missed
+    const connected = new Promise<void>((resolve, reject) => {
+      const subscriptions: (() => void)[] = [];
       const cleanup = () => {
-        isResolved = true;
         clearTimeout(timeout);
+        subscriptions.forEach((unsubscribe) => unsubscribe());
       };
 
-      this.socket!.once("connect", () => {
-        this.isConnected = true;
-        logger.debug(
-          "[WebSocketManager] Connected to WebSocket server, socket ID:",
-          this.socket?.id
+      const timeout = setTimeout(() => {
+        cleanup();
+        this.logger.debug(
+          `[WebSocketManager] Connection timeout after ${connectTimeout}ms`
         );
+        reject(new Error("WebSocket connection timeout"));
+      }, connectTimeout);
+
+      subscriptions.push(
+        transport.on("connect", () => {
+          this.logger.debug(
+            "[WebSocketManager] Connected to WebSocket server, socket ID:",
+            transport.id
+          );
 
-        // Track successful WebSocket connection
-        analytics.track(ANALYTICS_EVENTS.SDK_REMOTE_CONTROL_CONNECT_SUCCESS, {
-          socketId: this.socket?.id,
-        });
+          // Track successful WebSocket connection
+          this.analytics.track(
+            ANALYTICS_EVENTS.SDK_REMOTE_CONTROL_CONNECT_SUCCESS,
+            {
+              socketId: transport.id,
+            }
+          );
 
-        // Don't resolve yet - wait for welcome or connection message
-      });
+          // Don't resolve yet - wait for welcome or connection message
+        }),
 
-      this.socket!.once("connect_error", (error) => {
-        cleanup();
-        logger.debug("[WebSocketManager] Connection error:", error.message);
+        transport.on("connect_error", (error: Error) => {
+          cleanup();
+          this.logger.debug(
+            "[WebSocketManager] Connection error:",
+            error.message
+          );
 
-        // Track connection error
-        analytics.track(ANALYTICS_EVENTS.SDK_REMOTE_CONTROL_CONNECT_ERROR, {
-          error: error.message,
-        });
+          // Track connection error
+          this.analytics.track(
+            ANALYTICS_EVENTS.SDK_REMOTE_CONTROL_CONNECT_ERROR,
+            {
+              error: error.message,
+            }
+          );
 
-        reject(error);
-      });
+          reject(error);
+        }),
 
-      // Resolve when we get welcome or connection message
-      this.socket!.once("welcome", () => {
-        cleanup();
-        logger.debug(
-          "[WebSocketManager] Received welcome message, connection established"
-        );
-        resolve();
-      });
+        // Resolve when we get welcome or connection message
+        transport.on("welcome", () => {
+          cleanup();
+          this.logger.debug(
+            "[WebSocketManager] Received welcome message, connection established"
+          );
+          resolve();
+        }),
+
+        // Also resolve on connection data
+        transport.on("connection", () => {
+          cleanup();
+          this.logger.debug(
+            "[WebSocketManager] Received connection data, connection established"
+          );
+          resolve();
+        })
+      );
+    });
 
-      // Also resolve on connection data
-      this.socket!.once("connection", () => {
-        cleanup();
-        logger.debug(
-          "[WebSocketManager] Received connection data, connection established"
-        );
-        resolve();
-      });
+    this.setupEventHandlers(transport);
+    transport.connect({
+      url: `${socketUrl}${namespace}`,
+      query: {
+        intentToken,
+        agentName: "passage-react-js/1.0",
+      },
+      timeout: connectTimeout,
+      reconnection: this.reconnection,
     });
+
+    if (!this.fallback) {
+      return connected;
+    }
+    return connected.catch((error) => this.startPolling(error, transport));
   }
 
-  private setupEventHandlers(): void {
-    if (!this.socket) {
-      logger.debug(
-        "[WebSocketManager] No socket available for event handler setup"
-      );
-      return;
+  // Replace the transport with REST polling, rejects with the transport error when polling fails too
+  private async startPolling(
+    transportError: Error,
+    transport: PassageTransport
+  ): Promise<void> {
+    const fallback = this.fallback;
+    // Nothing to fall back for once the transport was disconnected or replaced
+    if (!fallback || this.transport !== transport) {
+      throw transportError;
+    }
+
+    this.logger.warn(
+      "[WebSocketManager] Socket unavailable, falling back to polling:",
+      transportError.message
+    );
+    this.analytics.track(ANALYTICS_EVENTS.SDK_REMOTE_CONTROL_POLLING_FALLBACK, {
+      error: transportError.message,
+    });
+
+    // Stop the transport from retrying in the background
+    transport.disconnect();
+    this.transport = null;
+    this.isConnected = false;
+
+    const poller = new ConnectionPoller({
+      fetchConnection: fallback.fetchConnection,
+      interval: fallback.interval ?? DEFAULT_POLLING_INTERVAL,
+      logger: this.logger,
+      onEvent: (event) => {
+        this.warnIfUnsubscribed(event.type);
+        if (event.type === "connection") {
+          this.applyConnection(event.payload);
+        } else {
+          this.notifyEventListeners(event);
+        }
+      },
+    });
+    this.poller = poller;
+
+    try {
+      await poller.start();
+    } catch (error) {
+      this.logger.debug("[WebSocketManager] Polling failed too:", error);
+      if (this.poller === poller) {
+        this.poller = null;
+      }
+      throw transportError;
     }
+  }
 
-    logger.debug("[WebSocketManager] Setting up event handlers");
+  private setupEventHandlers(transport: PassageTransport): void {
+    this.logger.debug("[WebSocketManager] Setting up event handlers");
 
-    this.socket.on("disconnect", (reason) => {
-      logger.debug(
+    transport.on("disconnect", (reason: string) => {
+      this.logger.debug(
         "[WebSocketManager] Disconnected from WebSocket server:",
         reason
       );
       this.isConnected = false;
 
       // Track disconnection
-      analytics.track(ANALYTICS_EVENTS.SDK_REMOTE_CONTROL_DISCONNECT, {
+      this.analytics.track(ANALYTICS_EVENTS.SDK_REMOTE_CONTROL_DISCONNECT, {
         reason,
       });
     });
 
-    this.socket.on("error", (error) => {
-      logger.debug("[WebSocketManager] WebSocket error:", error);
+    // Every protocol event goes through the normalization layer
+    RAW_SOCKET_EVENTS.forEach((eventName) => {
+      transport.on(eventName, (data?: any) =>
+        this.handleRawEvent(eventName, data)
+      );
     });
 
-    // Handle connection event with ConnectionUpdate data
-    this.socket.on("connection", (data: ConnectionUpdate) => {
-      logger.debug("[WebSocketManager] Received 'connection' event:", data);
-      this.currentConnection = data;
-
-      // Notify message listeners
-      this.notifyMessageListeners("connection", data);
-
-      // Notify connection listeners
-      this.notifyConnectionListeners(data);
+    // Log all events for debugging
+    if (this.logger["enabled"] && transport.onAny) {
+      transport.onAny((eventName, ...args) => {
+        this.logger.debug(
+          `[WebSocketManager] Received event '${eventName}':`,
+          args
+        );
 
-      // Also notify status listeners with the status from connection data
-      this.notifyStatusListeners(data.status);
-    });
+        // Notify message listeners for all events in debug mode
+        this.notifyMessageListeners(eventName, args);
+      });
+    }
 
-    // Primary status event handler
-    this.socket.on("status", (status: ConnectionStatus) => {
-      logger.debug("[WebSocketManager] Received 'status' event:", status);
+    transport.on("connect", () => {
+      this.isConnected = true;
+      this.logger.debug(
+        "[WebSocketManager] Socket connected, ID:",
+        transport.id
+      );
 
       // Notify message listeners
-      this.notifyMessageListeners("status", status);
-
-      this.notifyStatusListeners(status);
+      this.notifyMessageListeners("connect", { socketId: transport.id });
     });
 
-    // Handle status updates with message format
-    this.socket.on("status_update", (message: StatusUpdateMessage) => {
-      logger.debug(
-        "[WebSocketManager] Received 'status_update' event:",
-        message
+    transport.on("reconnect_attempt", (attemptNumber: number) => {
+      this.logger.debug(
+        "[WebSocketManager] Reconnection attempt #",
+        attemptNumber
       );
 
       // Notify message listeners
-      this.notifyMessageListeners("status_update", message);
-
-      this.notifyStatusListeners(message.status);
+      this.notifyMessageListeners("reconnect_attempt", { attemptNumber });
+      this.notifyEventListeners({
+        type: "reconnecting",
+        payload: {
+          attempt: attemptNumber,
+          maxAttempts: this.reconnection.maxAttempts,
+        },
+      });
     });
 
-    // Handle connection status updates with different event names
-    this.socket.on(
-      "connection_status",
-      (data: { status: ConnectionStatus }) => {
-        logger.debug(
-          "[WebSocketManager] Received 'connection_status' event:",
-          data
-        );
-
-        // Notify message listeners
-        this.notifyMessageListeners("connection_status", data);
-
-        this.notifyStatusListeners(data.status);
-      }
-    );
-
-    // Support for individual status events
-    const statusEvents: ConnectionStatus[] = [
-      "pending",
-      "connecting",
-      "connected",
-      "rejected",
-      "data_processing",
-      "data_available",
-      "error",
-    ];
-
-    statusEvents.forEach((status) => {
-      this.socket!.on(status, (data?: any) => {
-        logger.debug(
-          `[WebSocketManager] Received individual '${status}' event:`,
-          data
-        );
+    transport.on("reconnect", (attemptNumber: number) => {
+      this.logger.debug(
+        "[WebSocketManager] Socket reconnected after attempts:",
+        attemptNumber
+      );
+      this.awaitingReplay = true;
 
-        // Notify message listeners
-        this.notifyMessageListeners(status, data);
+      this.analytics.track(ANALYTICS_EVENTS.SDK_REMOTE_CONTROL_RECONNECT, {
+        attempts: attemptNumber,
+      });
 
-        this.notifyStatusListeners(status);
+      // Notify message listeners
+      this.notifyMessageListeners("reconnect", { attemptNumber });
+      this.notifyEventListeners({
+        type: "reconnected",
+        payload: { attempts: attemptNumber },
       });
     });
 
-    // Handle DATA_COMPLETE event
-    this.socket.on("DATA_COMPLETE", (data: any) => {
-      logger.debug("[WebSocketManager] Received 'DATA_COMPLETE' event:", data);
-      this.notifyMessageListeners("DATA_COMPLETE", data);
+    transport.on("reconnect_error", (error: Error) => {
+      this.logger.debug(
+        "[WebSocketManager] Reconnection error:",
+        error.message
+      );
+
+      // Notify message listeners
+      this.notifyMessageListeners("reconnect_error", { error: error.message });
     });
 
-    // Handle PROMPT_COMPLETE event
-    this.socket.on("PROMPT_COMPLETE", (data: any) => {
-      logger.debug(
-        "[WebSocketManager] Received 'PROMPT_COMPLETE' event:",
-        data
+    transport.on("reconnect_failed", () => {
+      this.logger.debug("[WebSocketManager] Reconnection failed");
+
+      this.analytics.track(
+        ANALYTICS_EVENTS.SDK_REMOTE_CONTROL_RECONNECT_FAILED,
+        {
+          attempts: this.reconnection.maxAttempts,
+        }
       );
-      this.notifyMessageListeners("PROMPT_COMPLETE", data);
-    });
 
-    // Handle prompt events (new format)
-    this.socket.on("prompt", (data: any) => {
-      logger.debug("[WebSocketManager] Received 'prompt' event:", data);
-      this.notifyMessageListeners("prompt", data);
+      // Notify message listeners
+      this.notifyMessageListeners("reconnect_failed", {});
+      this.notifyEventListeners({
+        type: "reconnectFailed",
+        payload: { attempts: this.reconnection.maxAttempts },
+      });
     });
+  }
 
-    // Handle done command event
-    this.socket.on("done", (data: any) => {
-      logger.debug("[WebSocketManager] Received 'done' event:", data);
-      this.notifyMessageListeners("done", data);
-    });
+  private handleRawEvent(eventName: string, data: any): void {
+    this.logger.debug(
+      `[WebSocketManager] Received '${eventName}' event:`,
+      data
+    );
 
-    // Handle command event (for automation commands like 'done')
-    this.socket.on("command", (data: any) => {
-      logger.debug("[WebSocketManager] Received 'command' event:", data);
-      this.notifyMessageListeners("command", data);
-    });
+    this.warnIfUnsubscribed(eventName);
 
-    // Log all events for debugging
-    if (logger["enabled"]) {
-      this.socket.onAny((eventName, ...args) => {
-        logger.debug(`[WebSocketManager] Received event '${eventName}':`, args);
+    // Raw listeners keep receiving the event as sent
+    this.notifyMessageListeners(eventName, data);
 
-        // Notify message listeners for all events in debug mode
-        this.notifyMessageListeners(eventName, args);
-      });
+    const events = normalizeSocketEvent(eventName, data);
+    if (events.length === 0) {
+      this.logger.warn(
+        `[WebSocketManager] Dropping '${eventName}' event with an invalid payload:`,
+        data
+      );
+      return;
     }
 
-    this.socket.on("welcome", (data) => {
-      logger.debug("[WebSocketManager] Welcome message from server:", data);
+    events.forEach((event) => {
+      if (event.type === "connection") {
+        this.awaitingReplay = false;
+        this.applyConnection(event.payload);
+        return;
+      }
 
-      // Notify message listeners
-      this.notifyMessageListeners("welcome", data);
+      if (event.type === "status") {
+        this.notifyStatusListeners(event.payload.status);
+      }
+      this.notifyEventListeners(event);
     });
+  }
 
-    this.socket.on("connect", () => {
-      logger.debug(
-        "[WebSocketManager] Socket reconnected, ID:",
-        this.socket?.id
+  // Dispatch a connection update unless it repeats the current state
+  private applyConnection(connection: ConnectionUpdate): void {
+    if (isSameConnection(this.currentConnection, connection)) {
+      this.logger.debug(
+        "[WebSocketManager] Skipping unchanged connection update:",
+        connection.status
       );
+      return;
+    }
 
-      // Notify message listeners
-      this.notifyMessageListeners("connect", { socketId: this.socket?.id });
-    });
-
-    this.socket.on("reconnect", (attemptNumber) => {
-      logger.debug("[WebSocketManager] Socket reconnected after", {
-        attemptNumber,
-        attempts: "attempts",
-      });
-
-      // Notify message listeners
-      this.notifyMessageListeners("reconnect", { attemptNumber });
-    });
+    this.currentConnection = connection;
+    this.notifyConnectionListeners(connection);
+    this.notifyStatusListeners(connection.status);
+    this.notifyEventListeners({ type: "connection", payload: connection });
+  }
 
-    this.socket.on("reconnect_attempt", (attemptNumber) => {
-      logger.debug("[WebSocketManager] Reconnection attempt #", attemptNumber);
+  // Whether a listener receives the events of the current session
+  private isSubscribed(listener: Function): boolean {
+    return this.isInScope(this.listenerScopes.get(listener));
+  }
 
-      // Notify message listeners
-      this.notifyMessageListeners("reconnect_attempt", { attemptNumber });
-    });
+  private isInScope(scope: string | undefined): boolean {
+    return !scope || !this.sessionId || scope === this.sessionId;
+  }
 
-    this.socket.on("reconnect_error", (error) => {
-      logger.debug("[WebSocketManager] Reconnection error:", error.message);
+  private hasSubscribers(): boolean {
+    const listenerSets: Set<Function>[] = [
+      this.statusListeners,
+      this.connectionListeners,
+      this.messageListeners,
+      ...this.eventListeners.values(),
+    ];
+    return listenerSets.some((listeners) =>
+      [...listeners].some((listener) => this.isSubscribed(listener))
+    );
+  }
 
-      // Notify message listeners
-      this.notifyMessageListeners("reconnect_error", { error: error.message });
-    });
+  private warnIfUnsubscribed(eventName: string): void {
+    if (!this.hasSubscribers()) {
+      this.logger.warn(
+        `[WebSocketManager] Received '${eventName}' but nothing is subscribed to session ${
+          this.sessionId ?? "(unknown)"
+        }, the event is dropped`
+      );
+    }
+  }
 
-    this.socket.on("reconnect_failed", () => {
-      logger.debug("[WebSocketManager] Reconnection failed");
+  // Register a listener in a set, returns the function removing it again
+  // Scoped listeners are wrapped, so one handler can be registered for several sessions
+  private register<T extends (...args: any[]) => void>(
+    listeners: Set<T>,
+    listener: T,
+    options: WebSocketListenerOptions
+  ): () => void {
+    let registered = listener;
+    if (options.sessionId) {
+      registered = ((...args: Parameters<T>) => listener(...args)) as T;
+      this.listenerScopes.set(registered, options.sessionId);
+    }
+    listeners.add(registered);
+    return () => {
+      listeners.delete(registered);
+    };
+  }
 
-      // Notify message listeners
-      this.notifyMessageListeners("reconnect_failed", {});
+  private notifyEventListeners(event: PassageSocketEvent): void {
+    this.eventListeners.get(event.type)?.forEach((listener) => {
+      if (!this.isSubscribed(listener)) {
+        return;
+      }
+      try {
+        listener(event.payload);
+      } catch (error) {
+        this.logger.error(
+          `[WebSocketManager] Error in '${event.type}' listener:`,
+          error
+        );
+      }
     });
   }
 
   private notifyStatusListeners(status: ConnectionStatus): void {
-    logger.debug(
+    this.logger.debug(
       `[WebSocketManager] Notifying ${this.statusListeners.size} listeners of status:`,
       status
     );
 
     // Validate status against known values
-    const validStatuses: ConnectionStatus[] = [
-      "pending",
-      "connecting",
-      "connected",
-      "rejected",
-      "data_processing",
-      "data_available",
-      "error",
-    ];
-
-    if (!validStatuses.includes(status)) {
-      logger.debug(
+    if (!isConnectionStatus(status)) {
+      this.logger.debug(
         "[WebSocketManager] WARNING: Received unknown status:",
         status
       );
     }
 
     this.statusListeners.forEach((listener) => {
+      if (!this.isSubscribed(listener)) {
+        return;
+      }
       try {
-        logger.debug(
+        this.logger.debug(
           "[WebSocketManager] Calling status listener with:",
           status
         );
         listener(status);
       } catch (error) {
-        logger.error("[WebSocketManager] Error in status listener:", error);
+        this.logger.error(
+          "[WebSocketManager] Error in status listener:",
+          error
+        );
       }
     });
   }
 
   private notifyConnectionListeners(connection: ConnectionUpdate): void {
-    logger.debug(
+    this.logger.debug(
       `[WebSocketManager] Notifying ${this.connectionListeners.size} listeners of connection update:`,
       connection
     );
 
     this.connectionListeners.forEach((listener) => {
+      if (!this.isSubscribed(listener)) {
+        return;
+      }
       try {
-        logger.debug(
+        this.logger.debug(
           "[WebSocketManager] Calling connection listener with:",
           connection
         );
         listener(connection);
       } catch (error) {
-        logger.error("[WebSocketManager] Error in connection listener:", error);
+        this.logger.error(
+          "[WebSocketManager] Error in connection listener:",
+          error
+        );
       }
     });
   }
 
   private notifyMessageListeners(eventName: string, data: any): void {
-    logger.debug(
+    this.logger.debug(
       `[WebSocketManager] Notifying ${this.messageListeners.size} listeners of message:`,
       {
         eventName,
@@ -413,47 +689,57 @@ export class WebSocketManager {
     );
 
     this.messageListeners.forEach((listener) => {
+      if (!this.isSubscribed(listener)) {
+        return;
+      }
       try {
-        logger.debug("[WebSocketManager] Calling message listener with:", {
+        this.logger.debug("[WebSocketManager] Calling message listener with:", {
           eventName,
           data,
         });
         listener(eventName, data);
       } catch (error) {
-        logger.error("[WebSocketManager] Error in message listener:", error);
+        this.logger.error(
+          "[WebSocketManager] Error in message listener:",
+          error
+        );
       }
     });
   }
 
-  addStatusListener(listener: (status: ConnectionStatus) => void): () => void {
-    logger.debug(
+  addStatusListener(
+    listener: (status: ConnectionStatus) => void,
+    options: WebSocketListenerOptions = {}
+  ): () => void {
+    this.logger.debug(
       "[WebSocketManager] Adding status listener, total listeners:",
       this.statusListeners.size + 1
     );
-    this.statusListeners.add(listener);
+    const remove = this.register(this.statusListeners, listener, options);
 
     // Return unsubscribe function
     return () => {
-      logger.debug(
+      this.logger.debug(
         "[WebSocketManager] Removing status listener, remaining listeners:",
         this.statusListeners.size - 1
       );
-      this.statusListeners.delete(listener);
+      remove();
     };
   }
 
   addConnectionListener(
-    listener: (connection: ConnectionUpdate) => void
+    listener: (connection: ConnectionUpdate) => void,
+    options: WebSocketListenerOptions = {}
   ): () => void {
-    logger.debug(
+    this.logger.debug(
       "[WebSocketManager] Adding connection listener, total listeners:",
       this.connectionListeners.size + 1
     );
-    this.connectionListeners.add(listener);
+    const remove = this.register(this.connectionListeners, listener, options);
 
     // If we already have a connection, immediately notify the new listener
-    if (this.currentConnection) {
-      logger.debug(
+    if (this.currentConnection && this.isInScope(options.sessionId)) {
+      this.logger.debug(
         "[WebSocketManager] Immediately notifying new listener with current connection"
       );
       listener(this.currentConnection);
@@ -461,62 +747,220 @@ export class WebSocketManager {
 
     // Return unsubscribe function
     return () => {
-      logger.debug(
+      this.logger.debug(
         "[WebSocketManager] Removing connection listener, remaining listeners:",
         this.connectionListeners.size - 1
       );
-      this.connectionListeners.delete(listener);
+      remove();
     };
   }
 
+  /**
+   * Listen to a canonical, validated socket event, returns an unsubscribe function
+   */
+  addListener<E extends PassageSocketEventName>(
+    event: E,
+    listener: (payload: PassageSocketEventMap[E]) => void,
+    options: WebSocketListenerOptions = {}
+  ): () => void {
+    let listeners = this.eventListeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.eventListeners.set(event, listeners);
+    }
+    return this.register(listeners, listener, options);
+  }
+
+  /**
+   * Listen to every raw socket event as sent by the server
+   * Prefer addListener(), which receives normalized and validated payloads
+   */
   addMessageListener(
-    listener: (eventName: string, data: any) => void
+    listener: (eventName: string, data: any) => void,
+    options: WebSocketListenerOptions = {}
   ): () => void {
-    logger.debug(
+    this.logger.debug(
       "[WebSocketManager] Adding message listener, total listeners:",
       this.messageListeners.size + 1
     );
-    this.messageListeners.add(listener);
+    const remove = this.register(this.messageListeners, listener, options);
 
     // Return unsubscribe function
     return () => {
-      logger.debug(
+      this.logger.debug(
         "[WebSocketManager] Removing message listener, remaining listeners:",
         this.messageListeners.size - 1
       );
-      this.messageListeners.delete(listener);
+      remove();
     };
   }
 
+  /**
+   * Remove every listener registered for a session, for owners that did not keep the unsubscribe functions
+   */
+  removeSessionListeners(sessionId: string): void {
+    const listenerSets: Set<Function>[] = [
+      this.statusListeners,
+      this.connectionListeners,
+      this.messageListeners,
+      ...this.eventListeners.values(),
+    ];
+    listenerSets.forEach((listeners) => {
+      listeners.forEach((listener) => {
+        if (this.listenerScopes.get(listener) === sessionId) {
+          listeners.delete(listener);
+        }
+      });
+    });
+  }
+
+  getSessionId(): string | null {
+    return this.sessionId;
+  }
+
   getCurrentConnection(): ConnectionUpdate | null {
     return this.currentConnection;
   }
 
+  getConnectionState(): PassageSocketConnectionState {
+    if (this.poller?.isRunning) {
+      return "polling";
+    }
+    return this.transport?.state ?? "idle";
+  }
+
+  /**
+   * Replay the connection state fetched after a reconnect, e.g. from the API
+   * Ignored when the socket delivered the state itself, listeners only see changes
+   */
+  replayConnection(connection: ConnectionUpdate): void {
+    if (!this.awaitingReplay) {
+      this.logger.debug(
+        "[WebSocketManager] Connection state already received, not replaying"
+      );
+      return;
+    }
+
+    this.awaitingReplay = false;
+    this.logger.debug(
+      "[WebSocketManager] Replaying connection state after reconnect:",
+      connection.status
+    );
+    this.applyConnection(connection);
+  }
+
+  /**
+   * Send a command to the running session, resolves with the server's acknowledgement
+   * Rejects when the socket is not connected, the server reports a failure or no
+   * acknowledgement arrives within the timeout
+   */
+  sendCommand(
+    type: PassageCommandType,
+    args?: Record<string, any>,
+    options: PassageCommandOptions = {}
+  ): Promise<PassageCommandAck> {
+    const transport = this.transport;
+    if (!transport || transport.state !== "connected") {
+      return Promise.reject(
+        new Error(
+          `Cannot send command '${type}', the socket is not connected (${this.getConnectionState()})`
+        )
+      );
+    }
+
+    const timeout = options.timeout ?? DEFAULT_COMMAND_TIMEOUT;
+    const command: PassageOutgoingCommand = {
+      id: `command-${++this.commandCounter}`,
+      type,
+      args,
+    };
+
+    this.logger.debug("[WebSocketManager] Sending command:", command);
+
+    return new Promise<PassageCommandAck>((resolve, reject) => {
+      const settle = () => {
+        const pending = this.pendingCommands.get(command.id);
+        if (!pending) {
+          return false;
+        }
+        clearTimeout(pending.timer);
+        this.pendingCommands.delete(command.id);
+        return true;
+      };
+
+      const timer = setTimeout(() => {
+        if (settle()) {
+          reject(
+            new Error(
+              `Command '${type}' was not acknowledged within ${timeout}ms`
+            )
+          );
+        }
+      }, timeout);
+      this.pendingCommands.set(command.id, { reject, timer });
+
+      transport.emit("command", command, (response: unknown) => {
+        if (!settle()) {
+          return;
+        }
+
+        const ack = toCommandAck(response);
+        this.logger.debug("[WebSocketManager] Command acknowledged:", {
+          id: command.id,
+          type,
+          ack,
+        });
+        if (ack.success) {
+          resolve(ack);
+        } else {
+          reject(new Error(ack.error || `Command '${type}' failed`));
+        }
+      });
+    });
+  }
+
+  // Commands cannot be acknowledged once their socket is gone
+  private rejectPendingCommands(reason: string): void {
+    this.pendingCommands.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(new Error(reason));
+    });
+    this.pendingCommands.clear();
+  }
+
   emitStatus(status: ConnectionStatus): void {
-    logger.debug("[WebSocketManager] Manually emitting status:", status);
+    this.logger.debug("[WebSocketManager] Manually emitting status:", status);
     this.notifyStatusListeners(status);
   }
 
   disconnect(): void {
-    if (this.socket) {
-      logger.debug("[WebSocketManager] Disconnecting WebSocket, clearing", {
-        statusListenersCount: this.statusListeners.size,
-        listeners: "listeners",
+    if (this.poller) {
+      this.poller.stop();
+      this.poller = null;
+    }
+
+    if (this.transport || this.intentToken) {
+      // Listeners belong to their owners and survive the disconnect
+      this.logger.debug("[WebSocketManager] Disconnecting WebSocket", {
+        sessionId: this.sessionId,
       });
 
       // Track manual disconnection
-      analytics.track(ANALYTICS_EVENTS.SDK_REMOTE_CONTROL_DISCONNECT, {
+      this.analytics.track(ANALYTICS_EVENTS.SDK_REMOTE_CONTROL_DISCONNECT, {
         reason: "manual",
       });
 
-      this.socket.disconnect();
-      this.socket = null;
+      this.rejectPendingCommands(
+        "The socket was disconnected before the command was acknowledged"
+      );
+      this.transport?.disconnect();
+      this.transport = null;
       this.isConnected = false;
       this.intentToken = null;
-      this.statusListeners.clear();
-      this.connectionListeners.clear();
-      this.messageListeners.clear();
+      this.fallback = null;
+      this.sessionId = null;
       this.currentConnection = null;
+      this.awaitingReplay = false;
 
       // Call headless cleanup if set
       if (this.headlessCleanup) {
@@ -524,22 +968,28 @@ export class WebSocketManager {
         this.headlessCleanup = null;
       }
     } else {
-      logger.debug("[WebSocketManager] No socket to disconnect");
+      this.logger.debug("[WebSocketManager] No socket to disconnect");
     }
   }
 
   isActive(): boolean {
-    const active = this.isConnected && this.socket?.connected === true;
-    logger.debug("[WebSocketManager] Socket active check:", {
+    const active =
+      (this.isConnected && this.transport?.state === "connected") ||
+      this.poller?.isRunning === true;
+    this.logger.debug("[WebSocketManager] Socket active check:", {
       active,
       isConnected: this.isConnected,
-      socketConnected: this.socket?.connected,
+      transportState: this.transport?.state,
+      polling: this.poller?.isRunning === true,
     });
     return active;
   }
 
   getIntentToken(): string | null {
-    logger.debug("[WebSocketManager] Getting intent token:", this.intentToken);
+    this.logger.debug(
+      "[WebSocketManager] Getting intent token:",
+      this.intentToken
+    );
     return this.intentToken;
   }
 }